@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import DataHealthReport from '@/components/DataHealthReport';
+import { listEventSlugs, readDataHealth, readEvent, readEventListing, readSummary } from '@/lib/events';
+
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const slugs = await listEventSlugs();
+  return slugs.map(slug => ({ slug }));
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
+  const { slug } = await params;
+  const event = await readEventListing(slug);
+  return {
+    title: `Data health: ${event.title} | Polymarket Insider Investigation`,
+    description: `Coverage of the price histories shipped for ${event.title}`,
+  };
+}
+
+export default async function DataHealthPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const event = await readEvent(slug);
+  const summary = await readSummary(slug);
+  const health = await readDataHealth(slug, event, summary);
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-200 p-8">
+      <DataHealthReport slug={slug} title={event.title} health={health} />
+    </main>
+  );
+}
@@ -0,0 +1,36 @@
+import type { Metadata } from 'next';
+import Dashboard from '@/components/Dashboard';
+import { listEventSlugs, readCalendar, readEvent, readEventListing, readSummary, readTrends, validateEventData } from '@/lib/events';
+
+// Static export: only the events present in public/data are generated
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const slugs = await listEventSlugs();
+  // Malformed data fails the build here, with a report of every bad file
+  for (const slug of slugs) await validateEventData(slug);
+  return slugs.map(slug => ({ slug }));
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
+  const { slug } = await params;
+  const event = await readEventListing(slug);
+  return {
+    title: `${event.title} | Polymarket Insider Investigation`,
+    description: `Analyzing trade data for ${event.title}`,
+  };
+}
+
+export default async function EventPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const event = await readEvent(slug);
+  const calendar = await readCalendar(slug);
+  const summary = await readSummary(slug);
+  const trends = await readTrends(slug, summary);
+
+  return (
+    <main className="min-h-screen bg-slate-950">
+      <Dashboard summary={summary} slug={slug} event={event} calendar={calendar} trends={trends} />
+    </main>
+  );
+}
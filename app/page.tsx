@@ -1,26 +1,22 @@
-import { promises as fs } from 'fs';
-import path from 'path';
-import Dashboard from '@/components/Dashboard';
+import EventIndex from '@/components/EventIndex';
+import { listEvents, type EventListing } from '@/lib/events';
 
 export const metadata = {
   title: 'Polymarket Insider Investigation',
-  description: 'Analyzing trade data for Portugal Presidential Election',
+  description: 'Analyzing trade data for Polymarket election events',
 };
 
 export default async function Home() {
-  let summary = [];
+  let events: EventListing[] = [];
   try {
-    const dataDirectory = path.join(process.cwd(), 'public/data');
-    const fileContents = await fs.readFile(path.join(dataDirectory, 'summary.json'), 'utf8');
-    summary = JSON.parse(fileContents);
+    events = await listEvents();
   } catch (err) {
-    console.error("Error reading summary.json", err);
-    // Return empty or error state
+    console.error("Error listing events", err);
   }
 
   return (
-    <main className="min-h-screen bg-slate-950">
-      <Dashboard summary={summary} />
+    <main className="min-h-screen bg-slate-950 text-slate-200 p-8">
+      <EventIndex events={events} />
     </main>
   );
 }
@@ -0,0 +1,213 @@
+"use client";
+
+import { useMemo, useRef, useState, type ChangeEvent } from "react";
+import {
+    ALERT_KINDS,
+    describeHit,
+    describeRule,
+    newRuleId,
+    parseAlertRules,
+    serializeAlertRules,
+    type AlertHit,
+    type AlertKind,
+    type AlertRule,
+    type CrossDirection,
+} from "@/lib/alerts";
+import { downloadBlob } from "@/lib/exportData";
+import { useLocale } from "@/lib/useLocale";
+import { useTimeFormat } from "@/lib/useTimeZone";
+
+interface AlertPanelProps {
+    slug: string;
+    rules: AlertRule[];
+    onRulesChange: (rules: AlertRule[]) => void;
+    hits: AlertHit[];
+    markets: { id: string; name: string }[];
+    rankAvailable: boolean; // rank rules need several loaded histories
+    onJump: (hit: AlertHit) => void;
+}
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClass = "px-3 py-1 rounded text-sm font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors";
+
+export default function AlertPanel({ slug, rules, onRulesChange, hits, markets, rankAvailable, onJump }: AlertPanelProps) {
+    const tools = useLocale();
+    const { t } = tools;
+    const formatTime = useTimeFormat();
+    const fileRef = useRef<HTMLInputElement>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    // New-rule form; numbers are kept as typed and checked as the rule is drafted
+    const [kind, setKind] = useState<AlertKind>('cross');
+    const [market, setMarket] = useState("");
+    const [level, setLevel] = useState("40");
+    const [direction, setDirection] = useState<CrossDirection>('either');
+    const [change, setChange] = useState("5");
+    const [minutes, setMinutes] = useState("15");
+    const [top, setTop] = useState("2");
+
+    const names = useMemo(() => new Map(markets.map(m => [m.id, m.name])), [markets]);
+    const name = (id: string) => names.get(id) ?? id;
+
+    const newestFirst = useMemo(() => [...hits].reverse(), [hits]);
+
+    // The form's rule, or null while a field is out of range; Add is disabled until then
+    const draft = useMemo(() => parseAlertRules([{
+        id: "draft",
+        market: market || null,
+        kind,
+        direction,
+        level: Number(level) / 100,
+        change: Number(change) / 100,
+        minutes: Number(minutes),
+        top: Number(top),
+    }])[0] ?? null, [market, kind, direction, level, change, minutes, top]);
+
+    const addRule = () => {
+        if (draft) onRulesChange([...rules, { ...draft, id: newRuleId() }]);
+    };
+
+    const exportRules = () =>
+        downloadBlob(serializeAlertRules(slug, rules), `${slug}-alerts.json`, "application/json");
+
+    // Imported rules are appended; ones already present (same id) are skipped
+    const importRules = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            const imported = parseAlertRules(JSON.parse(await file.text()));
+            const known = new Set(rules.map(r => r.id));
+            const added = imported.filter(r => !known.has(r.id));
+            onRulesChange([...rules, ...added]);
+            setMessage(t.alerts.imported(added.length));
+        } catch (err) {
+            setMessage(t.alerts.importFailed(err instanceof Error ? err.message : String(err)));
+        }
+    };
+
+    return (
+        <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl space-y-4">
+            <div className="flex justify-between items-center gap-3">
+                <h3 className="text-lg font-semibold text-slate-200">
+                    {t.alerts.title}
+                    <span className="ml-3 text-xs font-normal text-slate-500">{t.alerts.hits(hits.length)}</span>
+                </h3>
+                <div className="flex gap-2">
+                    <button onClick={() => fileRef.current?.click()} className={buttonClass}>{t.alerts.import}</button>
+                    <button onClick={exportRules} disabled={rules.length === 0} className={`${buttonClass} disabled:opacity-40`}>{t.alerts.export}</button>
+                    <input ref={fileRef} type="file" accept="application/json,.json" onChange={importRules} className="hidden" />
+                </div>
+            </div>
+            {message && <p className="text-xs text-slate-400">{message}</p>}
+
+            <div>
+                <h4 className="text-xs text-slate-400 uppercase tracking-wider mb-2">{t.alerts.rules}</h4>
+                {rules.length === 0 ? (
+                    <p className="text-sm text-slate-500">{t.alerts.noRules}</p>
+                ) : (
+                    <ul className="space-y-1 text-sm">
+                        {rules.map(rule => (
+                            <li key={rule.id} className="flex justify-between items-center gap-2 text-slate-300">
+                                <span className={rule.kind === 'rank' && !rankAvailable ? "text-slate-500" : ""}>
+                                    {describeRule(rule, name, tools)}
+                                </span>
+                                <button
+                                    onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                                    title={t.alerts.remove}
+                                    className="text-slate-500 hover:text-red-400"
+                                >
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {!rankAvailable && rules.some(r => r.kind === 'rank') && (
+                    <p className="mt-2 text-xs text-slate-500">{t.alerts.rankNeedsAll}</p>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2 text-xs text-slate-400">
+                <select value={kind} onChange={(e) => setKind(e.target.value as AlertKind)} className={inputClass}>
+                    {ALERT_KINDS.map(k => <option key={k} value={k}>{t.alerts.kinds[k]}</option>)}
+                </select>
+                <select value={market} onChange={(e) => setMarket(e.target.value)} className={`${inputClass} max-w-[200px]`}>
+                    <option value="">{t.alerts.allMarkets}</option>
+                    {markets.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+                {kind === 'cross' && (
+                    <>
+                        <label className="flex flex-col gap-1">
+                            {t.alerts.level}
+                            <input type="number" min="1" max="99" step="0.5" value={level} onChange={(e) => setLevel(e.target.value)} className={`${inputClass} w-20`} />
+                        </label>
+                        <select value={direction} onChange={(e) => setDirection(e.target.value as CrossDirection)} className={inputClass}>
+                            {(Object.keys(t.alerts.directions) as CrossDirection[]).map(d => (
+                                <option key={d} value={d}>{t.alerts.directions[d]}</option>
+                            ))}
+                        </select>
+                    </>
+                )}
+                {kind === 'move' && (
+                    <>
+                        <label className="flex flex-col gap-1">
+                            {t.alerts.change}
+                            <input type="number" min="0.5" step="0.5" value={change} onChange={(e) => setChange(e.target.value)} className={`${inputClass} w-20`} />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            {t.alerts.minutes}
+                            <input type="number" min="1" step="1" value={minutes} onChange={(e) => setMinutes(e.target.value)} className={`${inputClass} w-20`} />
+                        </label>
+                    </>
+                )}
+                {kind === 'rank' && (
+                    <label className="flex flex-col gap-1">
+                        {t.alerts.top}
+                        <input type="number" min="1" step="1" value={top} onChange={(e) => setTop(e.target.value)} className={`${inputClass} w-20`} />
+                    </label>
+                )}
+                <button
+                    onClick={addRule}
+                    disabled={!draft}
+                    className="px-3 py-1 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40 disabled:hover:bg-blue-600 disabled:cursor-not-allowed"
+                >
+                    {t.alerts.add}
+                </button>
+            </div>
+            {!draft && <p className="text-xs text-amber-400">{t.alerts.invalid[kind]}</p>}
+
+            {rules.length > 0 && (newestFirst.length === 0 ? (
+                <p className="text-sm text-slate-500">{t.alerts.noHits}</p>
+            ) : (
+                <div className="max-h-80 overflow-y-auto custom-scrollbar">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-slate-400 border-b border-slate-800 sticky top-0 bg-slate-900">
+                            <tr>
+                                <th className="px-2 py-1 text-left">{t.alerts.time}</th>
+                                <th className="px-2 py-1 text-left">{t.alerts.market}</th>
+                                <th className="px-2 py-1 text-left">{t.alerts.rule}</th>
+                                <th className="px-2 py-1 text-left">{t.alerts.detail}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-slate-300">
+                            {newestFirst.map((hit, idx) => (
+                                <tr
+                                    key={`${hit.rule.id}-${hit.market}-${hit.t}-${idx}`}
+                                    onClick={() => onJump(hit)}
+                                    title={t.alerts.jump}
+                                    className="border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/50"
+                                >
+                                    <td className="px-2 py-1 font-mono text-xs whitespace-nowrap">{formatTime(hit.t, 'dateTime')}</td>
+                                    <td className="px-2 py-1 truncate max-w-[160px]">{name(hit.market)}</td>
+                                    <td className="px-2 py-1 text-xs text-slate-400">{t.alerts.kinds[hit.rule.kind]}</td>
+                                    <td className="px-2 py-1 font-mono text-xs">{describeHit(hit, name, tools)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { rangeChange, SEVERITIES, SEVERITY_COLORS, type Annotation, type Severity } from "@/lib/annotations";
+import { downloadBlob } from "@/lib/exportData";
+import { reportHtml, reportMarkdown, type ReportSeries } from "@/lib/report";
+import type { Poll } from "@/lib/schema";
+import { useLocale } from "@/lib/useLocale";
+import { useTimeFormat } from "@/lib/useTimeZone";
+
+interface CaseFilePanelProps {
+    title: string;        // event title, for the report
+    filename: string;
+    annotations: Annotation[];
+    pending: { start: number; end: number } | null; // range just selected on the chart
+    onSave: (fields: Pick<Annotation, 'tag' | 'note' | 'severity'>) => void;
+    onCancel: () => void;
+    onRemove: (id: string) => void;
+    onShow: (annotation: Annotation) => void;
+    series: ReportSeries[];
+    polls: Poll[];
+    getOverview: () => string | undefined; // SVG markup of the chart on screen
+    pointCount?: number;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClass = "px-3 py-1 rounded text-xs font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors disabled:opacity-40";
+
+export default function CaseFilePanel(props: CaseFilePanelProps) {
+    const { title, filename, annotations, pending, onSave, onCancel, onRemove, onShow, series, polls, getOverview, pointCount } = props;
+    const tools = useLocale();
+    const { t, number, pts } = tools;
+    const formatTime = useTimeFormat();
+    const [tag, setTag] = useState("");
+    const [note, setNote] = useState("");
+    const [severity, setSeverity] = useState<Severity>('medium');
+
+    const sorted = [...annotations].sort((a, b) => a.start - b.start);
+
+    const save = () => {
+        onSave({ tag: tag.trim(), note: note.trim(), severity });
+        setTag("");
+        setNote("");
+    };
+
+    const exportReport = (kind: 'html' | 'md') => {
+        const report = { title, generated: Date.now() / 1000, annotations: sorted, series, polls, overview: getOverview() };
+        const format = { tools, formatTime };
+        if (kind === 'html') downloadBlob(reportHtml(report, format), `${filename}-case-file.html`, "text/html");
+        else downloadBlob(reportMarkdown(report, format), `${filename}-case-file.md`, "text/markdown");
+    };
+
+    return (
+        <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl space-y-4">
+            <div className="flex justify-between items-center gap-2">
+                <h3 className="text-lg font-semibold text-slate-200">
+                    {t.views.notesTitle}
+                    <span className="ml-3 text-xs font-normal text-slate-500">{t.caseFile.ranges(annotations.length)}</span>
+                </h3>
+                <div className="flex gap-1">
+                    <button onClick={() => exportReport('html')} disabled={annotations.length === 0} className={buttonClass}>{t.caseFile.reportHtml}</button>
+                    <button onClick={() => exportReport('md')} disabled={annotations.length === 0} className={buttonClass}>{t.caseFile.reportMarkdown}</button>
+                </div>
+            </div>
+
+            {pending && (
+                <div className="p-3 bg-slate-800/50 border border-amber-500/40 rounded-lg space-y-2 text-xs text-slate-400">
+                    <p className="text-amber-400 font-semibold">
+                        {t.caseFile.newRange}: {formatTime(pending.start, 'dateTime')} → {formatTime(pending.end, 'dateTime')}
+                    </p>
+                    <div className="flex gap-2">
+                        <label className="flex-1 space-y-1">
+                            <span>{t.caseFile.tag}</span>
+                            <input value={tag} onChange={(e) => setTag(e.target.value)} placeholder={t.caseFile.tagPlaceholder} className={inputClass} />
+                        </label>
+                        <label className="space-y-1">
+                            <span>{t.caseFile.severity}</span>
+                            <select value={severity} onChange={(e) => setSeverity(e.target.value as Severity)} className={inputClass}>
+                                {SEVERITIES.map(s => <option key={s} value={s}>{t.caseFile.severities[s]}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <label className="block space-y-1">
+                        <span>{t.caseFile.note}</span>
+                        <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} className={inputClass} />
+                    </label>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={onCancel} className={buttonClass}>{t.caseFile.cancel}</button>
+                        <button onClick={save} className="px-3 py-1 rounded text-xs font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors">
+                            {t.caseFile.save}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {sorted.length === 0 ? (
+                <ul className="list-disc list-inside text-slate-400 space-y-2 text-sm">
+                    <li>{t.views.noteJumps}</li>
+                    <li>{t.views.noteAccumulation}</li>
+                    {pointCount !== undefined && (
+                        <li>{t.views.notePointsBefore}<span className="font-mono text-emerald-400">{number(pointCount)}</span>{t.views.notePointsAfter}</li>
+                    )}
+                    <li>{t.views.noteZoom}</li>
+                </ul>
+            ) : (
+                <ul className="space-y-3 text-sm max-h-96 overflow-y-auto custom-scrollbar">
+                    {sorted.map(a => (
+                        <li key={a.id} className="border-l-2 pl-3" style={{ borderColor: SEVERITY_COLORS[a.severity] }}>
+                            <div className="flex justify-between items-baseline gap-2">
+                                <button onClick={() => onShow(a)} title={t.caseFile.show} className="text-left font-semibold text-slate-200 hover:underline">
+                                    {a.tag || t.caseFile.untitled}
+                                </button>
+                                <span className="flex items-center gap-2 text-xs">
+                                    <span style={{ color: SEVERITY_COLORS[a.severity] }}>{t.caseFile.severities[a.severity]}</span>
+                                    <button onClick={() => onRemove(a.id)} title={t.caseFile.remove} className="text-slate-500 hover:text-red-400">✕</button>
+                                </span>
+                            </div>
+                            <p className="font-mono text-xs text-slate-500">
+                                {formatTime(a.start, 'dateTime')} → {formatTime(a.end, 'dateTime')}
+                            </p>
+                            <p className="font-mono text-xs text-slate-400">
+                                {series.filter(s => a.markets.includes(s.id)).flatMap(s => {
+                                    const change = rangeChange(s.data, a.start, a.end);
+                                    return change ? [`${s.name} ${change.change > 0 ? '+' : ''}${pts(change.change)}`] : [];
+                                }).join(" · ")}
+                            </p>
+                            {a.note && <p className="text-slate-400 whitespace-pre-line mt-1">{a.note}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,9 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useRef, useEffect, useCallback, memo, type RefObject } from "react";
 import {
     LineChart,
     Line,
+    BarChart,
+    Bar,
     XAxis,
     YAxis,
     CartesianGrid,
@@ -9,20 +11,28 @@ import {
     Legend,
     ReferenceLine,
     ReferenceArea,
+    ResponsiveContainer,
+    type MouseHandlerDataParam,
 } from "recharts";
-import { format } from "date-fns";
-
-// ... (interfaces remain the same: DataPoint, Poll, SingleChartProps, MultiChartProps, ChartProps)
-interface DataPoint {
-    t: number;
-    p: number;
-}
-
-interface Poll {
-    date: string;
-    firm: string;
-    description: string;
-}
+import { seriesColor } from "@/lib/colors";
+import { CALENDAR_CATEGORIES, type Milestone } from "@/lib/calendar";
+import { downsample, type DownsampleMethod } from "@/lib/downsample";
+import { useOverlayWorker, type MergedRow } from "@/lib/useOverlayWorker";
+import { useChartZoom, type ChartZoom, type DataExtent, type ZoomState } from "@/lib/useChartZoom";
+import { pollTime } from "@/lib/timeZone";
+import { useTimeFormat } from "@/lib/useTimeZone";
+import { useLocale } from "@/lib/useLocale";
+import type { LocaleTools } from "@/lib/i18n";
+import type { AlertMarker } from "@/lib/alerts";
+import { SEVERITY_COLORS, type Annotation } from "@/lib/annotations";
+import { breakAtGaps, findGaps, mergeGaps, type Gap } from "@/lib/dataHealth";
+import { SUM_KEY, type BookDeparture } from "@/lib/overround";
+import { aggregateOHLC, type Candle } from "@/lib/ohlc";
+import type { ExportColumn } from "@/lib/exportData";
+import type { DataPoint, Poll } from "@/lib/schema";
+import ExportMenu, { type ExportSource } from "./ExportMenu";
+import CorrelationPanel from "./CorrelationPanel";
+import { renderGaps } from "./GapBands";
 
 interface SingleChartProps {
     mode: "single";
@@ -30,6 +40,14 @@ interface SingleChartProps {
     question: string;
     polls?: Poll[];
     detailLevel?: number;
+    downsampleMethod?: DownsampleMethod;
+    milestones?: Milestone[];
+    alerts?: AlertMarker[];
+    flags?: { start: number; end: number }[];
+    annotations?: Annotation[];
+    onAnnotate?: (start: number, end: number) => void;
+    chartRef?: RefObject<HTMLDivElement | null>; // the chart's container, for snapshots taken outside it
+    zoomState?: ZoomState;
 }
 
 interface MultiChartProps {
@@ -37,46 +55,158 @@ interface MultiChartProps {
     datasets: { id: string; name: string; data: DataPoint[] }[];
     polls?: Poll[];
     detailLevel?: number;
+    downsampleMethod?: DownsampleMethod;
+    normalizable?: boolean; // mutually exclusive (negRisk) markets: offer implied-share mode
+    normalized?: boolean;
+    onNormalizedChange?: (normalized: boolean) => void;
+    book?: { id: string; data: DataPoint[] }[]; // every market of the event, the implied-share denominator
+    milestones?: Milestone[];
+    alerts?: AlertMarker[];
+    annotations?: Annotation[];
+    onAnnotate?: (start: number, end: number) => void;
+    chartRef?: RefObject<HTMLDivElement | null>; // the chart's container, for snapshots taken outside it
+    zoomState?: ZoomState;
 }
 
-type ChartProps = SingleChartProps | MultiChartProps;
+interface CandleChartProps {
+    mode: "candles";
+    data: DataPoint[];
+    question: string;
+    polls?: Poll[];
+    detailLevel?: number; // candle interval in minutes
+    milestones?: Milestone[];
+    alerts?: AlertMarker[];
+    flags?: { start: number; end: number }[];
+    annotations?: Annotation[];
+    onAnnotate?: (start: number, end: number) => void;
+    chartRef?: RefObject<HTMLDivElement | null>;
+    zoomState?: ZoomState;
+}
 
-const COLORS = [
-    "#10b981", "#3b82f6", "#f59e0b", "#ef4444", "#8b5cf6",
-    "#ec4899", "#14b8a6", "#f97316", "#6366f1", "#84cc16"
-];
+interface OverroundChartProps {
+    mode: "overround";
+    datasets: { id: string; name: string; data: DataPoint[] }[];
+    polls?: Poll[];
+    detailLevel?: number;
+    downsampleMethod?: DownsampleMethod;
+    milestones?: Milestone[];
+    alerts?: AlertMarker[];
+    zoomState?: ZoomState;
+}
+
+interface GridChartProps {
+    mode: "grid";
+    datasets: { id: string; name: string; data: DataPoint[] }[];
+    order?: string[]; // market ids in display order; defaults to the datasets' order
+    polls?: Poll[];
+    detailLevel?: number;
+    downsampleMethod?: DownsampleMethod;
+    milestones?: Milestone[];
+    alerts?: AlertMarker[];
+    zoomState?: ZoomState;
+    onSelect?: (id: string) => void;
+}
+
+type ChartProps = SingleChartProps | MultiChartProps | CandleChartProps | OverroundChartProps | GridChartProps;
+
+type ColoredDataset = MultiChartProps['datasets'][number] & { color: string };
 
 const PollLabel = (props: any) => {
+    const formatTime = useTimeFormat();
     const { viewBox, poll } = props;
     const { x, y } = viewBox;
     return (
         <g transform={`translate(${x},${y})`}>
             <text x={10} y={20} fontSize={16} fill="#f59e0b" className="cursor-pointer" style={{ pointerEvents: 'all' }}>
                 ℹ️
-                <title>{`${poll.firm} (${format(new Date(poll.date), "MMM d, HH:mm")}): ${poll.description}`}</title>
+                <title>{`${poll.firm} (${formatTime(pollTime(poll), 'dateTime')}): ${poll.description}`}</title>
             </text>
         </g>
     );
 };
 
+// Alert hits: a bell below the top of a thin line; clicking the bell zooms to the hit
+interface AlertLabelProps {
+    viewBox?: { x: number; y: number };
+    marker: AlertMarker;
+    onJump: (from: number, to: number) => void;
+}
+
+const AlertLabel = ({ viewBox, marker, onJump }: AlertLabelProps) => {
+    if (!viewBox) return null;
+    const { x, y } = viewBox;
+    return (
+        <g transform={`translate(${x},${y})`}>
+            <text x={-7} y={36} fontSize={14} className="cursor-pointer" style={{ pointerEvents: 'all' }} onClick={() => onJump(marker.from, marker.to)}>
+                🔔
+                <title>{marker.label}</title>
+            </text>
+        </g>
+    );
+};
+
+const renderAlerts = (alerts: AlertMarker[] | undefined, onJump: (from: number, to: number) => void) => alerts?.map((marker, idx) => (
+    <ReferenceLine
+        key={`alert-${idx}`}
+        x={marker.t}
+        stroke="#a855f7"
+        strokeDasharray="2 2"
+        strokeOpacity={0.7}
+        label={<AlertLabel marker={marker} onJump={onJump} />}
+    />
+));
+
+// Case-file ranges, shaded in their severity's color with the tag on top
+const renderAnnotations = (annotations?: Annotation[]) => annotations?.map((a) => (
+    <ReferenceArea
+        key={`note-${a.id}`}
+        x1={a.start}
+        x2={a.end}
+        fill={SEVERITY_COLORS[a.severity]}
+        fillOpacity={0.12}
+        stroke={SEVERITY_COLORS[a.severity]}
+        strokeOpacity={0.5}
+        ifOverflow="hidden"
+        label={{ position: 'insideTop', value: a.tag, fill: SEVERITY_COLORS[a.severity], fontSize: 11 }}
+    />
+));
+
+// Calendar milestones: ranged ones (polls open -> close) are shaded between two lines
+const renderMilestones = (milestones?: Milestone[]) => milestones?.flatMap((m) => {
+    const color = CALENDAR_CATEGORIES[m.category].color;
+    const label = { position: 'top' as const, value: m.label, fill: color, fontSize: 12 };
+    if (m.end === undefined) {
+        return [<ReferenceLine key={`ms-${m.start}`} x={m.start} stroke={color} strokeDasharray="3 3" label={label} />];
+    }
+    return [
+        <ReferenceArea key={`ms-area-${m.start}`} x1={m.start} x2={m.end} fill={color} fillOpacity={0.1} ifOverflow="hidden" />,
+        <ReferenceLine key={`ms-start-${m.start}`} x={m.start} stroke={color} strokeDasharray="3 3" label={label} />,
+        <ReferenceLine key={`ms-end-${m.start}`} x={m.end} stroke={color} strokeDasharray="3 3" />,
+    ];
+});
+
 const CustomTooltip = ({ active, payload, label }: any) => {
+    const formatTime = useTimeFormat();
+    const { percent } = useLocale();
     // ... (same as before)
-    if (active && payload && payload.length) {
+    // Series blanked inside a data gap have no value at that instant
+    const shown = payload?.filter((entry: { value?: number | null }) => entry.value !== undefined && entry.value !== null);
+    if (active && shown && shown.length) {
         return (
             <div className="bg-slate-900/30 backdrop-blur-md border border-slate-700/50 p-3 rounded shadow-lg text-sm">
                 <p className="text-slate-300 mb-2 border-b border-slate-700 pb-1">
-                    {format(new Date(label * 1000), "MMM d, HH:mm")}
+                    {formatTime(label, 'dateTime')}
                 </p>
-                {payload.length === 1 ? (
+                {shown.length === 1 ? (
                     <p className="text-emerald-400 font-bold text-lg">
-                        {(payload[0].value * 100).toFixed(1)}%
+                        {percent(shown[0].value)}
                     </p>
                 ) : (
                     <div className="space-y-1 max-h-60 overflow-auto custom-scrollbar">
-                        {payload.sort((a: any, b: any) => b.value - a.value).map((entry: any, idx: number) => (
+                        {shown.sort((a: any, b: any) => b.value - a.value).map((entry: any, idx: number) => (
                             <div key={idx} className="flex justify-between gap-4">
                                 <span style={{ color: entry.color }} className="truncate max-w-[150px]">{entry.name}</span>
-                                <span className="font-mono" style={{ color: entry.color }}>{(entry.value * 100).toFixed(1)}%</span>
+                                <span className="font-mono" style={{ color: entry.color }}>{percent(entry.value)}</span>
                             </div>
                         ))}
                     </div>
@@ -87,76 +217,132 @@ const CustomTooltip = ({ active, payload, label }: any) => {
     return null;
 };
 
-// Helper to downsample data by visual density (target points in view)
-const downsample = (data: any[], left: number | string | null, right: number | string | null, targetPoints: number) => {
-    if (!data || data.length === 0) return [];
+// Points inside the current zoom window, at full resolution
+const visibleRange = <T extends { t: number }>(data: T[], left: number | string, right: number | string) =>
+    data.filter(d => (typeof left !== 'number' || d.t >= left) && (typeof right !== 'number' || d.t <= right));
 
-    // Identify range indices
-    const startIdx = typeof left === 'number' ? data.findIndex(d => d.t >= left) : 0;
-    const endIdx = typeof right === 'number' ? data.findIndex(d => d.t > right) : data.length;
+const isoTime = (t: number) => new Date(t * 1000).toISOString();
 
-    const sliceStart = startIdx === -1 ? 0 : startIdx;
-    const sliceEnd = endIdx === -1 ? data.length : endIdx;
-    const sliceLength = sliceEnd - sliceStart;
+const TIME_COLUMNS: ExportColumn[] = [
+    { key: "time", header: "time" },
+    { key: "t", header: "timestamp" },
+];
 
-    // IF visible points < targetPoints, show all of them (auto-scaling resolution)
-    if (sliceLength <= targetPoints) {
-        return data.slice(sliceStart, sliceEnd);
+// First and last timestamp across the given histories
+const dataExtent = (series: DataPoint[][]): DataExtent | null => {
+    let start = Infinity;
+    let end = -Infinity;
+    for (const data of series) {
+        if (data.length === 0) continue;
+        start = Math.min(start, data[0].t);
+        end = Math.max(end, data[data.length - 1].t);
     }
+    return start < end ? { start, end } : null;
+};
 
-    // Otherwise stride to maintain target density
-    const stride = Math.ceil(sliceLength / targetPoints);
-    const result = [];
+const ZOOM_PRESETS = [
+    { unit: 'hours', count: 1, seconds: 3600 },
+    { unit: 'hours', count: 24, seconds: 24 * 3600 },
+    { unit: 'days', count: 7, seconds: 7 * 24 * 3600 },
+] as const;
 
-    for (let i = sliceStart; i < sliceEnd; i += stride) {
-        result.push(data[i]);
-    }
+// Election-day preset: voting hours plus the results night
+const VOTE_LEAD = 2 * 3600;
+const VOTE_TAIL = 8 * 3600;
 
-    // Always include the last point of the slice to prevent gaps at right edge
-    if (sliceLength > 0 && (result.length === 0 || result[result.length - 1] !== data[sliceEnd - 1])) {
-        result.push(data[sliceEnd - 1]);
-    }
-
-    return result;
-};
+const toolbarButton = "px-2 py-1 rounded text-xs transition-colors bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:text-slate-600 disabled:hover:bg-slate-800 disabled:cursor-not-allowed";
 
-// Re-use zoom logic hook to avoid duplication
-const useChartZoom = (initialLeft: string | number | null = "dataMin", initialRight: string | number | null = "dataMax") => {
-    const [left, setLeft] = useState<string | number | null>(initialLeft);
-    const [right, setRight] = useState<string | number | null>(initialRight);
-    const [refAreaLeft, setRefAreaLeft] = useState<string | number | null>(null);
-    const [refAreaRight, setRefAreaRight] = useState<string | number | null>(null);
-
-    const zoom = () => {
-        if (refAreaLeft === refAreaRight || refAreaRight === null) {
-            setRefAreaLeft(null);
-            setRefAreaRight(null);
+// Annotate mode: the next drag selection becomes a case-file range instead of a zoom
+const useAnnotate = (chartZoom: ChartZoom, onAnnotate?: (start: number, end: number) => void) => {
+    const [annotating, setAnnotating] = useState(false);
+    const { refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, zoom } = chartZoom;
+    const onMouseUp = () => {
+        if (!annotating || !onAnnotate) {
+            zoom();
             return;
         }
-        let l = refAreaLeft;
-        let r = refAreaRight;
-        if ((l as number) > (r as number)) [l, r] = [r, l];
         setRefAreaLeft(null);
         setRefAreaRight(null);
-        setLeft(l);
-        setRight(r);
+        if (refAreaLeft === null || refAreaRight === null || refAreaLeft === refAreaRight) return;
+        const [start, end] = [Number(refAreaLeft), Number(refAreaRight)].sort((a, b) => a - b);
+        setAnnotating(false);
+        onAnnotate(start, end);
     };
+    return { annotating, toggle: () => setAnnotating(on => !on), onMouseUp, selectionColor: annotating ? "#f59e0b" : "#3b82f6" };
+};
 
-    const zoomOut = () => {
-        setLeft("dataMin");
-        setRight("dataMax");
-    };
+const AnnotateButton = ({ annotate }: { annotate: ReturnType<typeof useAnnotate> }) => {
+    const { t } = useLocale();
+    return (
+        <button
+            onClick={annotate.toggle}
+            title={t.caseFile.annotateHint}
+            className={annotate.annotating ? "px-2 py-1 rounded text-xs transition-colors bg-amber-600 text-white hover:bg-amber-500" : toolbarButton}
+        >
+            ✎ {t.caseFile.annotate}
+        </button>
+    );
+};
 
-    return { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, zoom, zoomOut };
+// Presets, undo/redo and reset; the same controls on every time-series chart
+const ZoomToolbar = ({ zoom, milestones }: { zoom: ChartZoom; milestones?: Milestone[] }) => {
+    const zoomed = zoom.left !== "dataMin" || zoom.right !== "dataMax";
+    const votes = milestones?.filter(m => m.category === 'voting') ?? [];
+    const formatTime = useTimeFormat();
+    const { t } = useLocale();
+    return (
+        <div className="flex flex-wrap items-center gap-1">
+            {ZOOM_PRESETS.map(preset => {
+                const label = t.units[preset.unit](String(preset.count));
+                return (
+                    <button key={preset.seconds} onClick={() => zoom.showLast(preset.seconds)} className={toolbarButton} title={t.zoom.last(label)}>
+                        {label}
+                    </button>
+                );
+            })}
+            {votes.map(vote => (
+                <button
+                    key={vote.start}
+                    onClick={() => zoom.showWindow(vote.start - VOTE_LEAD, (vote.end ?? vote.start) + VOTE_TAIL)}
+                    className={toolbarButton}
+                    title={vote.label}
+                >
+                    {t.zoom.vote(formatTime(vote.start, 'day'))}
+                </button>
+            ))}
+            <span className="w-2" />
+            <button onClick={zoom.undo} disabled={!zoom.canUndo} className={toolbarButton} title={t.zoom.undo}>↶</button>
+            <button onClick={zoom.redo} disabled={!zoom.canRedo} className={toolbarButton} title={t.zoom.redo}>↷</button>
+            <button
+                onClick={zoom.zoomOut}
+                disabled={!zoomed}
+                className={`px-3 py-1 rounded text-xs font-medium transition-colors ${zoomed
+                    ? "bg-blue-600 text-white hover:bg-blue-500"
+                    : "bg-slate-800 text-slate-500 cursor-not-allowed"
+                    }`}
+            >
+                {t.zoom.reset}
+            </button>
+            <span
+                className="text-xs text-slate-500 ml-2 cursor-help"
+                title={t.zoom.hintDetail}
+            >
+                {t.zoom.hint} ⓘ
+            </span>
+        </div>
+    );
 };
 
 const SingleChart = (props: SingleChartProps) => {
-    const { data, question, polls, detailLevel } = props;
-    const { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, zoom, zoomOut } = useChartZoom();
-
-    // Election Day Markers
-    const electionDayStart = new Date("2026-01-18T08:00:00Z").getTime() / 1000;
-    const electionDayEnd = new Date("2026-01-18T19:00:00Z").getTime() / 1000;
+    const { data, question, polls, detailLevel, downsampleMethod, milestones, alerts, flags, annotations, onAnnotate, zoomState } = props;
+    const formatTime = useTimeFormat();
+    const { t, number, percent } = useLocale();
+    const extent = useMemo(() => dataExtent([data]), [data]);
+    const chartZoom = useChartZoom(zoomState, extent);
+    const { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, bindZoom } = chartZoom;
+    const annotate = useAnnotate(chartZoom, onAnnotate);
+    const ownRef = useRef<HTMLDivElement>(null);
+    const chartRef = props.chartRef ?? ownRef;
 
     // Create display data - always call hooks unconditionally
     const displayData = useMemo(() => {
@@ -168,15 +354,18 @@ const SingleChart = (props: SingleChartProps) => {
             ? Infinity
             : Math.ceil(fullDurationMinutes / desiredResMinutes);
 
-        return downsample(data, left, right, targetVisualPoints);
-    }, [data, left, right, detailLevel]);
+        return downsample(data, left, right, targetVisualPoints, downsampleMethod);
+    }, [data, left, right, detailLevel, downsampleMethod]);
+
+    const gaps = useMemo(() => findGaps(data), [data]);
+    const chartData = useMemo(() => breakAtGaps(displayData, [{ key: "p", gaps }]), [displayData, gaps]);
 
     const infoString = useMemo(() => {
         if (!displayData || displayData.length < 2) return "";
         const avgInterval = (displayData[displayData.length - 1].t - displayData[0].t) / displayData.length;
         const mins = Math.max(1, Math.round(avgInterval / 60));
-        return `Showing ${displayData.length} pts (~1pt/${mins}m)`;
-    }, [displayData]);
+        return t.chart.showing(number(displayData.length), mins) + (gaps.length > 0 ? t.chart.gaps(gaps.length) : "");
+    }, [displayData, gaps, t, number]);
 
     const range = useMemo(() => {
         if (!data || !data.length) return { min: 0, max: 1 };
@@ -189,109 +378,294 @@ const SingleChart = (props: SingleChartProps) => {
     if (!data || data.length === 0) {
         return (
             <div className="w-full h-[600px] bg-slate-900 rounded-xl p-4 border border-slate-800 flex items-center justify-center">
-                <span className="text-slate-500">No data available</span>
+                <span className="text-slate-500">{t.noData}</span>
             </div>
         );
     }
 
+    const getExportRows = (source: ExportSource) => {
+        const rows = source === 'raw' ? visibleRange(data, left, right) : displayData;
+        return {
+            columns: [...TIME_COLUMNS, { key: "p", header: "price" }],
+            rows: rows.map(d => ({ time: isoTime(d.t), t: d.t, p: d.p })),
+        };
+    };
+
     return (
-        <div className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl select-none">
-            <div className="flex justify-between items-center mb-4">
+        <div ref={chartRef} className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl select-none">
+            <div className="flex justify-between items-center mb-4 gap-3">
                 <h2 className="text-xl font-bold text-slate-100 truncate flex-1" title={question}>
                     {question}
                     <span className="ml-3 text-xs font-normal text-slate-500">{infoString}</span>
                 </h2>
-                <button
-                    onClick={zoomOut}
-                    disabled={left === "dataMin" && right === "dataMax"}
-                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${left !== "dataMin" || right !== "dataMax"
-                        ? "bg-blue-600 text-white hover:bg-blue-500"
-                        : "bg-slate-800 text-slate-500 cursor-not-allowed"
-                        }`}
+                <ExportMenu
+                    getRows={getExportRows}
+                    chartRef={chartRef}
+                    title={question}
+                    filename={question.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60)}
+                />
+            </div>
+            <div className="mb-3 flex items-start justify-between gap-2">
+                <ZoomToolbar zoom={chartZoom} milestones={milestones} />
+                {onAnnotate && <AnnotateButton annotate={annotate} />}
+            </div>
+            <div ref={bindZoom} tabIndex={0} className="outline-none">
+                <LineChart
+                    width={900}
+                    height={500}
+                    data={chartData}
+                    onMouseDown={(e) => e && setRefAreaLeft(e.activeLabel as string)}
+                    onMouseMove={(e) => refAreaLeft && e && setRefAreaRight(e.activeLabel as string)}
+                    onMouseUp={annotate.onMouseUp}
                 >
-                    Reset Zoom
-                </button>
-                <span className="text-xs text-slate-500 ml-3">Drag to zoom</span>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                        dataKey="t"
+                        type="number"
+                        domain={[left || 'dataMin', right || 'dataMax']}
+                        tickFormatter={(unixTime) => formatTime(unixTime, 'axisDay')}
+                        stroke="#94a3b8"
+                        fontSize={12}
+                        allowDataOverflow
+                    />
+                    <YAxis
+                        domain={[Math.max(0, range.min * 0.8), Math.min(1, range.max * 1.2)]}
+                        tickFormatter={(val) => percent(val, 0)}
+                        stroke="#94a3b8"
+                        fontSize={12}
+                    />
+                    <Tooltip content={<CustomTooltip />} />
+                    {renderMilestones(milestones)}
+                    {renderGaps(gaps, t.chart.gap)}
+                    {renderAnnotations(annotations)}
+                    {renderAlerts(alerts, chartZoom.showWindow)}
+                    {polls?.map((poll, idx) => {
+                        const pollTs = pollTime(poll);
+                        return (
+                            <ReferenceLine
+                                key={idx}
+                                x={pollTs}
+                                stroke="#f59e0b"
+                                strokeDasharray="3 3"
+                                strokeOpacity={0.6}
+                                label={<PollLabel poll={poll} />}
+                            />
+                        );
+                    })}
+                    {/* Flagged jump windows */}
+                    {flags?.map((flag) => (
+                        <ReferenceArea key={flag.start} x1={flag.start} x2={flag.end} fill="#ef4444" fillOpacity={0.2} stroke="#ef4444" strokeOpacity={0.5} ifOverflow="hidden" />
+                    ))}
+                    {refAreaLeft && refAreaRight ? (
+                        <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill={annotate.selectionColor} fillOpacity={0.3} />
+                    ) : null}
+                    <Line
+                        type="monotone"
+                        dataKey="p"
+                        stroke="#10b981"
+                        strokeWidth={2}
+                        dot={false}
+                        animationDuration={left === "dataMin" ? 300 : 0}
+                    />
+                </LineChart>
             </div>
-            <LineChart
-                width={900}
-                height={500}
-                data={displayData}
-                onMouseDown={(e) => e && setRefAreaLeft(e.activeLabel as string)}
-                onMouseMove={(e) => refAreaLeft && e && setRefAreaRight(e.activeLabel as string)}
-                onMouseUp={zoom}
-            >
-                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-                <XAxis
-                    dataKey="t"
-                    type="number"
-                    domain={[left || 'dataMin', right || 'dataMax']}
-                    tickFormatter={(unixTime) => format(new Date(unixTime * 1000), "d MMM")}
-                    stroke="#94a3b8"
-                    fontSize={12}
-                    allowDataOverflow
-                />
-                <YAxis
-                    domain={[Math.max(0, range.min * 0.8), Math.min(1, range.max * 1.2)]}
-                    tickFormatter={(val) => `${(val * 100).toFixed(0)}%`}
-                    stroke="#94a3b8"
-                    fontSize={12}
-                />
-                <Tooltip content={<CustomTooltip />} />
-                <ReferenceLine x={electionDayStart} stroke="#ef4444" strokeDasharray="3 3" label={{ position: 'top', value: 'Polls Open', fill: '#ef4444', fontSize: 12 }} />
-                <ReferenceLine x={electionDayEnd} stroke="#ef4444" strokeDasharray="3 3" label={{ position: 'top', value: 'Polls Close', fill: '#ef4444', fontSize: 12 }} />
-                {polls?.map((poll, idx) => {
-                    const pollTs = new Date(poll.date).getTime() / 1000;
-                    return (
+        </div>
+    );
+};
+
+// Upper bound on drawn candles; wider zoom windows get coarser buckets
+const MAX_CANDLES = 300;
+
+interface CandleShapeProps {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    payload: Candle;
+}
+
+// Wick spans the bar (low..high); the body is placed between open and close
+const CandleShape = ({ x, y, width, height, payload }: CandleShapeProps) => {
+    const { open, close, high, low } = payload;
+    const color = close >= open ? "#10b981" : "#ef4444";
+    const top = Math.min(y, y + height);
+    const span = high - low;
+    const scale = span > 0 ? Math.abs(height) / span : 0;
+    const yOf = (v: number) => top + (high - v) * scale;
+    const bodyTop = yOf(Math.max(open, close));
+    const bodyHeight = Math.max(1, Math.abs(open - close) * scale);
+    const cx = x + width / 2;
+    return (
+        <g>
+            <line x1={cx} x2={cx} y1={top} y2={top + Math.abs(height)} stroke={color} strokeWidth={1} />
+            <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+        </g>
+    );
+};
+
+const CandleTooltip = ({ active, payload, bucketSeconds }: { active?: boolean; payload?: { payload: Candle }[]; bucketSeconds: number }) => {
+    const formatTime = useTimeFormat();
+    const { t, number, percent: pct, pts } = useLocale();
+    if (!active || !payload || !payload.length) return null;
+    const candle = payload[0].payload;
+    return (
+        <div className="bg-slate-900/30 backdrop-blur-md border border-slate-700/50 p-3 rounded shadow-lg text-sm">
+            <p className="text-slate-300 mb-2 border-b border-slate-700 pb-1">
+                {formatTime(candle.t, 'dateTime')}–{formatTime(candle.t + bucketSeconds, 'time')}
+            </p>
+            <div className="grid grid-cols-2 gap-x-4 font-mono text-xs text-slate-300">
+                <span>{t.chart.open}</span><span className="text-right">{pct(candle.open)}</span>
+                <span>{t.chart.high}</span><span className="text-right">{pct(candle.high)}</span>
+                <span>{t.chart.low}</span><span className="text-right">{pct(candle.low)}</span>
+                <span>{t.chart.close}</span><span className="text-right">{pct(candle.close)}</span>
+            </div>
+            <p className="mt-2 text-amber-400 font-semibold">
+                {t.chart.range(pts(candle.high - candle.low))}
+            </p>
+            <p className="text-slate-500 text-xs">{t.chart.inBucket(number(candle.count))}</p>
+        </div>
+    );
+};
+
+const CandleChart = (props: CandleChartProps) => {
+    const { data, question, polls, detailLevel, milestones, alerts, flags, annotations, onAnnotate, zoomState } = props;
+    const formatTime = useTimeFormat();
+    const { t, number, percent } = useLocale();
+    const extent = useMemo(() => dataExtent([data]), [data]);
+    const chartZoom = useChartZoom(zoomState, extent);
+    const { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, bindZoom } = chartZoom;
+    const annotate = useAnnotate(chartZoom, onAnnotate);
+    const ownRef = useRef<HTMLDivElement>(null);
+    const chartRef = props.chartRef ?? ownRef;
+    const gaps = useMemo(() => findGaps(data), [data]);
+
+    const { candles, bucketSeconds } = useMemo(() => {
+        const visible = visibleRange(data, left, right);
+        if (visible.length === 0) return { candles: [], bucketSeconds: 60 };
+        const span = visible[visible.length - 1].t - visible[0].t;
+        const minBucket = Math.ceil(span / MAX_CANDLES / 60) * 60;
+        const bucket = Math.max((detailLevel || 30) * 60, minBucket, 60);
+        return { candles: aggregateOHLC(visible, bucket), bucketSeconds: bucket };
+    }, [data, left, right, detailLevel]);
+
+    const range = useMemo(() => {
+        if (!candles.length) return { min: 0, max: 1 };
+        return {
+            min: Math.min(...candles.map(c => c.low)),
+            max: Math.max(...candles.map(c => c.high)),
+        };
+    }, [candles]);
+
+    if (!data || data.length === 0) {
+        return (
+            <div className="w-full h-[600px] bg-slate-900 rounded-xl p-4 border border-slate-800 flex items-center justify-center">
+                <span className="text-slate-500">{t.noData}</span>
+            </div>
+        );
+    }
+
+    const padding = Math.max(0.005, (range.max - range.min) * 0.1);
+
+    return (
+        <div ref={chartRef} className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl select-none">
+            <div className="flex justify-between items-center mb-4 gap-3">
+                <h2 className="text-xl font-bold text-slate-100 truncate flex-1" title={question}>
+                    {question}
+                    <span className="ml-3 text-xs font-normal text-slate-500">
+                        {t.chart.candles(number(candles.length), Math.round(bucketSeconds / 60)) + (gaps.length > 0 ? t.chart.gaps(gaps.length) : "")}
+                    </span>
+                </h2>
+            </div>
+            <div className="mb-3 flex items-start justify-between gap-2">
+                <ZoomToolbar zoom={chartZoom} milestones={milestones} />
+                {onAnnotate && <AnnotateButton annotate={annotate} />}
+            </div>
+            <div ref={bindZoom} tabIndex={0} className="outline-none">
+                <BarChart
+                    width={900}
+                    height={500}
+                    data={candles}
+                    barCategoryGap={0}
+                    onMouseDown={(e) => e && setRefAreaLeft(e.activeLabel as string)}
+                    onMouseMove={(e) => refAreaLeft && e && setRefAreaRight(e.activeLabel as string)}
+                    onMouseUp={annotate.onMouseUp}
+                >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                        dataKey="t"
+                        type="number"
+                        domain={[left || 'dataMin', right || 'dataMax']}
+                        tickFormatter={(unixTime) => formatTime(unixTime, 'axisDayTime')}
+                        stroke="#94a3b8"
+                        fontSize={12}
+                        allowDataOverflow
+                    />
+                    <YAxis
+                        domain={[Math.max(0, range.min - padding), Math.min(1, range.max + padding)]}
+                        tickFormatter={(val) => percent(val, 0)}
+                        stroke="#94a3b8"
+                        fontSize={12}
+                    />
+                    <Tooltip content={<CandleTooltip bucketSeconds={bucketSeconds} />} cursor={{ fill: "#334155", fillOpacity: 0.3 }} />
+                    {renderMilestones(milestones)}
+                    {renderGaps(gaps, t.chart.gap)}
+                    {renderAnnotations(annotations)}
+                    {renderAlerts(alerts, chartZoom.showWindow)}
+                    {polls?.map((poll, idx) => (
                         <ReferenceLine
                             key={idx}
-                            x={pollTs}
+                            x={pollTime(poll)}
                             stroke="#f59e0b"
                             strokeDasharray="3 3"
                             strokeOpacity={0.6}
                             label={<PollLabel poll={poll} />}
                         />
-                    );
-                })}
-                {refAreaLeft && refAreaRight ? (
-                    <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill="#3b82f6" fillOpacity={0.3} />
-                ) : null}
-                <Line
-                    type="monotone"
-                    dataKey="p"
-                    stroke="#10b981"
-                    strokeWidth={2}
-                    dot={false}
-                    animationDuration={left === "dataMin" ? 300 : 0}
-                />
-            </LineChart>
+                    ))}
+                    {flags?.map((flag) => (
+                        <ReferenceArea key={flag.start} x1={flag.start} x2={flag.end} fill="#ef4444" fillOpacity={0.2} stroke="#ef4444" strokeOpacity={0.5} ifOverflow="hidden" />
+                    ))}
+                    {refAreaLeft && refAreaRight ? (
+                        <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill={annotate.selectionColor} fillOpacity={0.3} />
+                    ) : null}
+                    <Bar
+                        dataKey="range"
+                        isAnimationActive={false}
+                        shape={(shapeProps: unknown) => <CandleShape {...(shapeProps as CandleShapeProps)} />}
+                    />
+                </BarChart>
+            </div>
         </div>
     );
 };
 
 // Legend Component for side-panel display
-const TrendLegend = ({ data, datasets, label }: { data: any, datasets: MultiChartProps['datasets'], label: number | null }) => {
+// Candidates with a price in `row`, highest first
+const rankCandidates = (row: Record<string, number | undefined>, datasets: ColoredDataset[]) =>
+    datasets
+        .map(ds => ({
+            ...ds,
+            value: row[ds.id] !== undefined ? row[ds.id] : null
+        }))
+        .filter((c): c is ColoredDataset & { value: number } => c.value !== null && c.value !== undefined)
+        .sort((a, b) => b.value - a.value);
+
+const TrendLegend = ({ data, datasets, label }: { data: any, datasets: ColoredDataset[], label: number | null }) => {
+    const formatTime = useTimeFormat();
+    const { t, percent } = useLocale();
     if (!data) {
         return (
             <div className="w-full md:w-64 flex-shrink-0 bg-slate-900/50 p-4 rounded border border-slate-700 backdrop-blur-sm self-start">
-                <p className="text-slate-400 text-sm">Hover over the chart to see details.</p>
+                <p className="text-slate-400 text-sm">{t.chart.hover}</p>
             </div>
         );
     }
 
-    // Sort candidates by value (descending)
-    const sortedCandidates = datasets
-        .map(ds => ({
-            ...ds,
-            value: data[ds.id] !== undefined ? data[ds.id] : null
-        }))
-        .filter(c => c.value !== null)
-        .sort((a, b) => (b.value as number) - (a.value as number));
+    const sortedCandidates = rankCandidates(data, datasets);
 
     return (
         <div className="w-full md:w-64 flex-shrink-0 bg-slate-900/50 p-4 rounded border border-slate-700 backdrop-blur-sm self-start max-h-[500px] overflow-y-auto custom-scrollbar">
             <h3 className="text-slate-200 font-semibold mb-2 border-b border-slate-700 pb-2">
-                {label ? format(new Date(label * 1000), "MMM d, HH:mm") : "Latest"}
+                {label ? formatTime(label, 'dateTime') : t.chart.latest}
             </h3>
             <div className="space-y-2">
                 {sortedCandidates.map((candidate) => (
@@ -306,140 +680,497 @@ const TrendLegend = ({ data, datasets, label }: { data: any, datasets: MultiChar
                             </span>
                         </div>
                         <span className="font-mono font-medium text-slate-200">
-                            {(candidate.value! * 100).toFixed(1)}%
+                            {percent(candidate.value)}
                         </span>
                     </div>
                 ))}
             </div>
             {sortedCandidates.length === 0 && (
-                <p className="text-slate-500 text-xs italic">No trade data at this timestamp.</p>
+                <p className="text-slate-500 text-xs italic">{t.chart.noTrades}</p>
             )}
         </div>
     );
 };
 
+// Race standings at the replay playhead: same ranking as the legend, drawn as bars
+const ReplayBars = ({ row, datasets, label }: { row: Record<string, number | undefined> | null; datasets: ColoredDataset[]; label: number }) => {
+    const ranked = row ? rankCandidates(row, datasets) : [];
+    const formatTime = useTimeFormat();
+    const { t, percent } = useLocale();
+    const top = ranked.length > 0 ? ranked[0].value : 1;
+    return (
+        <div className="w-full md:w-64 flex-shrink-0 bg-slate-900/50 p-4 rounded border border-slate-700 self-start max-h-[500px] overflow-y-auto custom-scrollbar">
+            <h3 className="text-slate-200 font-semibold mb-2 border-b border-slate-700 pb-2 font-mono">
+                {formatTime(label, 'dateTime')}
+            </h3>
+            <div className="space-y-2">
+                {ranked.map((candidate, idx) => (
+                    <div key={candidate.id} className="text-sm">
+                        <div className="flex justify-between gap-2">
+                            <span className="text-slate-300 truncate">
+                                <span className="text-slate-500 mr-1">{idx + 1}.</span>{candidate.name}
+                            </span>
+                            <span className="font-mono text-slate-200">{percent(candidate.value)}</span>
+                        </div>
+                        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                            <div
+                                className="h-full rounded-full transition-all duration-200"
+                                style={{ width: `${top > 0 ? (candidate.value / top) * 100 : 0}%`, backgroundColor: candidate.color }}
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+            {ranked.length === 0 && (
+                <p className="text-slate-500 text-xs italic">{t.chart.noTradesYet}</p>
+            )}
+        </div>
+    );
+};
+
+// Replay speed: simulated seconds per real second
+const REPLAY_SPEEDS = [
+    { value: 600, unit: 'minutes', count: 10 },
+    { value: 3600, unit: 'hours', count: 1 },
+    { value: 6 * 3600, unit: 'hours', count: 6 },
+    { value: 24 * 3600, unit: 'days', count: 1 },
+] as const;
+const REPLAY_TICK_MS = 100;
+// Narrowest replay window, so the axis has a span while the playhead is at the start
+const REPLAY_MIN_SPAN = 3600;
+
 const MultiChart = (props: MultiChartProps) => {
-    const { datasets, polls, detailLevel } = props;
-    const { left, right, refAreaLeft, refAreaRight, setLeft, setRight, setRefAreaLeft, setRefAreaRight, zoom, zoomOut } = useChartZoom();
+    const { polls, detailLevel, downsampleMethod, normalizable, onNormalizedChange, book, milestones, alerts, annotations, onAnnotate, zoomState } = props;
+    const formatTime = useTimeFormat();
+    const { t, number, percent } = useLocale();
+    const extent = useMemo(() => dataExtent(props.datasets.map(ds => ds.data)), [props.datasets]);
+    const chartZoom = useChartZoom(zoomState, extent);
+    const { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, bindZoom } = chartZoom;
+    const annotate = useAnnotate(chartZoom, onAnnotate);
+    const ownRef = useRef<HTMLDivElement>(null);
+    const chartRef = props.chartRef ?? ownRef;
+
+    const normalized = normalizable === true && props.normalized === true;
+
+    // Replay: the playhead walks through the zoomed range; null = not started (shows the end)
+    const [replaying, setReplaying] = useState(false);
+    const [playing, setPlaying] = useState(false);
+    const [playhead, setPlayhead] = useState<number | null>(null);
+    const [replaySpeed, setReplaySpeed] = useState(3600);
 
     // State for external legend
     const [activePayload, setActivePayload] = useState<any>(null);
     const [activeLabel, setActiveLabel] = useState<number | null>(null);
 
-    const electionDayStart = new Date("2026-01-18T08:00:00Z").getTime() / 1000;
-    const electionDayEnd = new Date("2026-01-18T19:00:00Z").getTime() / 1000;
-
-    // Merge data with Forward Fill
-    const mergedData = useMemo(() => {
-        const allPoints: { t: number; id: string; p: number }[] = [];
-        datasets.forEach(ds => {
-            ds.data.forEach(pt => {
-                allPoints.push({ t: pt.t, id: ds.id, p: pt.p });
-            });
-        });
+    // Assign a stable color per candidate
+    const datasets = useMemo(
+        () => props.datasets.map((ds, idx) => ({ ...ds, color: seriesColor(idx) })),
+        [props.datasets]
+    );
 
-        allPoints.sort((a, b) => a.t - b.t);
+    // Implied shares merge the whole book and return only the compared series
+    const merging = normalized && book ? book : datasets;
+    const shownIds = useMemo(() => normalized && book ? datasets.map(ds => ds.id) : null, [normalized, book, datasets]);
 
-        const result: any[] = [];
-        const lastKnownValues: Record<string, number> = {};
+    // Merge + downsample run in a Web Worker; zooming only re-slices the cached merge
+    const overlay = useOverlayWorker(
+        merging,
+        left,
+        right,
+        ({ start, end }) => {
+            const desiredResMinutes = detailLevel || 30;
+            return desiredResMinutes <= 1 ? Infinity : Math.ceil((end - start) / 60 / desiredResMinutes);
+        },
+        downsampleMethod || 'stride',
+        normalized ? 'normalize' : 'none',
+        shownIds
+    );
+    // Each line breaks in its own gaps; the shading covers any market's
+    const gaps = useMemo(() => datasets.map(ds => ({ key: ds.id, gaps: findGaps(ds.data) })), [datasets]);
+    const gapBands = useMemo(() => mergeGaps(gaps.flatMap(g => g.gaps)), [gaps]);
+    const displayData = useMemo(() => breakAtGaps(overlay.rows, gaps), [overlay.rows, gaps]);
 
-        let currentTimestamp = -1;
-        let currentObj: any = null;
+    const infoString = useMemo(() => {
+        if (!displayData || displayData.length < 2) return "";
+        const avgInterval = (displayData[displayData.length - 1].t - displayData[0].t) / displayData.length;
+        const mins = Math.max(1, Math.round(avgInterval / 60));
+        return t.chart.showingOf(number(displayData.length), number(overlay.inRange), mins) + (gapBands.length > 0 ? t.chart.gaps(gapBands.length) : "");
+    }, [displayData, overlay.inRange, gapBands, t, number]);
 
-        for (const point of allPoints) {
-            if (point.t !== currentTimestamp) {
-                if (currentObj) result.push(currentObj);
-                currentTimestamp = point.t;
-                currentObj = { t: currentTimestamp, ...lastKnownValues };
-            }
-            currentObj[point.id] = point.p;
-            lastKnownValues[point.id] = point.p;
-        }
-        if (currentObj) result.push(currentObj);
+    const replayStart = displayData.length > 0 ? displayData[0].t : 0;
+    const replayEnd = displayData.length > 0 ? displayData[displayData.length - 1].t : 0;
+    const head = playhead === null ? replayEnd : Math.min(Math.max(playhead, replayStart), replayEnd);
+    const atEnd = head >= replayEnd;
 
-        return result;
-    }, [datasets]);
+    useEffect(() => {
+        if (!playing || atEnd) return;
+        const timer = setInterval(() => {
+            setPlayhead(prev => Math.min(replayEnd, (prev ?? replayStart) + replaySpeed * REPLAY_TICK_MS / 1000));
+        }, REPLAY_TICK_MS);
+        return () => clearInterval(timer);
+    }, [playing, atEnd, replaySpeed, replayStart, replayEnd]);
 
-    // Downsample
-    const displayData = useMemo(() => {
-        if (!mergedData.length) return [];
-        const fullDurationMinutes = (mergedData[mergedData.length - 1].t - mergedData[0].t) / 60;
-        const desiredResMinutes = detailLevel || 30;
-
-        const targetVisualPoints = desiredResMinutes <= 1
-            ? Infinity
-            : Math.ceil(fullDurationMinutes / desiredResMinutes);
+    const chartData = useMemo(
+        () => replaying ? displayData.filter(row => row.t <= head) : displayData,
+        [replaying, displayData, head]
+    );
+    // Markers appear once the playhead has crossed them
+    const shownPolls = replaying ? polls?.filter(poll => pollTime(poll) <= head) : polls;
+    const shownMilestones = replaying ? milestones?.filter(m => m.start <= head) : milestones;
+    const shownAlerts = replaying ? alerts?.filter(a => a.t <= head) : alerts;
+    // While replaying, the axis ends at the playhead so the plot grows with it
+    const xDomain: [number | string, number | string] = replaying
+        ? [replayStart, Math.max(head, replayStart + REPLAY_MIN_SPAN)]
+        : [left || 'dataMin', right || 'dataMax'];
 
-        return downsample(mergedData, left, right, targetVisualPoints);
-    }, [mergedData, left, right, detailLevel]);
+    const toggleReplay = () => {
+        setReplaying(!replaying);
+        setPlaying(!replaying);
+        setPlayhead(replaying ? null : replayStart);
+    };
 
-    const infoString = useMemo(() => {
-        if (!displayData || displayData.length < 2) return "";
-        const avgInterval = (displayData[displayData.length - 1].t - displayData[0].t) / displayData.length;
-        const mins = Math.max(1, Math.round(avgInterval / 60));
-        return `Showing ${displayData.length} pts (~1pt/${mins}m)`;
-    }, [displayData]);
+    const togglePlaying = () => {
+        if (atEnd) {
+            setPlayhead(replayStart);
+            setPlaying(true);
+        } else {
+            setPlaying(!playing);
+        }
+    };
 
     const activeData = activePayload || (displayData.length > 0 ? displayData[displayData.length - 1] : null);
     const activeTimestamp = activeLabel || (activeData ? activeData.t : null);
 
+    if (!overlay.ready) {
+        return (
+            <div className="w-full h-[600px] bg-slate-900 rounded-xl p-4 border border-slate-800 flex flex-col items-center justify-center gap-3">
+                <span className="text-slate-500">{t.merging(datasets.length)}</span>
+                <div className="w-64 h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(overlay.progress * 100)}%` }} />
+                </div>
+            </div>
+        );
+    }
+
     if (displayData.length === 0) {
         return (
             <div className="w-full h-[600px] bg-slate-900 rounded-xl p-4 border border-slate-800 flex items-center justify-center">
-                <span className="text-slate-500">No data available</span>
+                <span className="text-slate-500">{t.noData}</span>
             </div>
         );
     }
 
+    // Overlay export: one column per candidate, forward-filled like the chart
+    const getExportRows = async (source: ExportSource) => {
+        const rows = source === 'raw' ? await overlay.requestRange(left, right) : displayData;
+        return {
+            columns: [...TIME_COLUMNS, ...datasets.map(ds => ({ key: ds.id, header: ds.name }))],
+            rows: rows.map(row => ({ ...row, time: isoTime(row.t) })),
+        };
+    };
+
     return (
         <div className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl select-none">
             <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-bold text-slate-100">
-                    All Candidates Comparison
+                <h2 className="text-xl font-bold text-slate-100 flex-1">
+                    {normalized ? t.overlay.sharesTitle : t.overlay.allTitle}
                     <span className="ml-3 text-xs font-normal text-slate-500">{infoString}</span>
                 </h2>
-
+                {normalizable && (
+                    <label
+                        className="flex items-center gap-2 mr-3 text-xs text-slate-400 cursor-pointer"
+                        title={t.overlay.normalizeHint}
+                    >
+                        <input
+                            type="checkbox"
+                            checked={props.normalized === true}
+                            onChange={(e) => onNormalizedChange?.(e.target.checked)}
+                            className="accent-blue-500"
+                        />
+                        {t.overlay.normalize}
+                    </label>
+                )}
+                <button
+                    onClick={toggleReplay}
+                    title={t.overlay.replayHint}
+                    className={`mr-3 px-3 py-1 rounded text-xs transition-colors ${replaying ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                >
+                    {replaying ? t.overlay.exitReplay : t.overlay.replay}
+                </button>
+                <ExportMenu
+                    getRows={getExportRows}
+                    chartRef={chartRef}
+                    title={normalized ? t.overlay.sharesTitle : t.overlay.allTitle}
+                    filename={normalized ? "candidates-implied-shares" : "candidates-overlay"}
+                />
+            </div>
+            <div className="mb-3 flex items-start justify-between gap-2">
+                <ZoomToolbar zoom={chartZoom} milestones={milestones} />
+                {onAnnotate && !replaying && <AnnotateButton annotate={annotate} />}
             </div>
 
             <div className="flex flex-col md:flex-row gap-4">
                 {/* Legend Panel */}
-                <TrendLegend
-                    data={activeData}
-                    datasets={datasets}
-                    label={activeTimestamp}
-                />
+                {replaying ? (
+                    <ReplayBars row={chartData.length > 0 ? chartData[chartData.length - 1] : null} datasets={datasets} label={head} />
+                ) : (
+                    <TrendLegend
+                        data={activeData}
+                        datasets={datasets}
+                        label={activeTimestamp}
+                    />
+                )}
 
                 {/* Chart Area */}
-                <div className="flex-1 h-[500px] relative min-w-0 bg-slate-900/40 rounded border border-slate-700/50 p-2">
+                <div ref={chartRef} className="flex-1 h-[500px] relative min-w-0 bg-slate-900/40 rounded border border-slate-700/50 p-2">
+                    <div ref={bindZoom} tabIndex={0} className="w-full h-full outline-none">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart
+                                data={chartData}
+                                onMouseDown={(e: any) => e && setRefAreaLeft(e.activeLabel)}
+                                onMouseMove={(e: any) => {
+                                    if (refAreaLeft) {
+                                        e && setRefAreaRight(e.activeLabel);
+                                    }
+                                    if (e && e.activePayload && e.activePayload.length > 0) {
+                                        setActivePayload(e.activePayload[0].payload);
+                                        setActiveLabel(e.activeLabel);
+                                    }
+                                }}
+                                onMouseLeave={() => {
+                                    setRefAreaLeft(null);
+                                    setRefAreaRight(null);
+                                    setActivePayload(null);
+                                    setActiveLabel(null);
+                                }}
+                                onMouseUp={annotate.onMouseUp}
+                            >
+                                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                                <XAxis
+                                    dataKey="t"
+                                    type="number"
+                                    domain={xDomain}
+                                    tickFormatter={(ts) => formatTime(ts, 'axisDayTime')}
+                                    stroke="#94a3b8"
+                                    fontSize={11}
+                                    allowDataOverflow
+                                />
+                                <YAxis
+                                    domain={[0, 'auto']}
+                                    tickFormatter={(val) => percent(val, 0)}
+                                    stroke="#94a3b8"
+                                    fontSize={12}
+                                />
+                                <Tooltip
+                                    content={<></>}
+                                    cursor={{ stroke: 'white', strokeWidth: 1, strokeDasharray: '4 4' }}
+                                />
+                                {/* Poll Release Markers */}
+                                {shownPolls?.map((poll, idx) => (
+                                    <ReferenceLine
+                                        key={idx}
+                                        x={pollTime(poll)}
+                                        stroke="#f59e0b"
+                                        strokeDasharray="3 3"
+                                        strokeOpacity={0.6}
+                                        label={<PollLabel poll={poll} />}
+                                    />
+                                ))}
+
+                                {renderMilestones(shownMilestones)}
+                                {renderGaps(gapBands, t.chart.gap)}
+                                {renderAnnotations(annotations)}
+                                {renderAlerts(shownAlerts, chartZoom.showWindow)}
+
+                                {replaying && <ReferenceLine x={head} stroke="#e2e8f0" strokeOpacity={0.6} />}
+
+                                {datasets.map((ds) => (
+                                    <Line
+                                        key={ds.id}
+                                        type="monotone"
+                                        dataKey={ds.id}
+                                        name={ds.name}
+                                        stroke={ds.color}
+                                        strokeWidth={2}
+                                        dot={false}
+                                        activeDot={{ r: 4, strokeWidth: 0 }}
+                                        isAnimationActive={false}
+                                    />
+                                ))}
+
+                                {refAreaLeft && refAreaRight ? (
+                                    <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill={annotate.selectionColor} fillOpacity={0.3} />
+                                ) : null}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+            </div>
+
+            {replaying && (
+                <div className="flex items-center gap-4 mt-4 text-xs text-slate-400">
                     <button
-                        className="absolute top-2 right-2 bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded text-xs z-10 transition-colors shadow-sm"
-                        onClick={zoomOut}
-                        disabled={left === "dataMin" && right === "dataMax"}
+                        onClick={togglePlaying}
+                        className="w-20 px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white transition-colors"
                     >
-                        Reset Zoom
+                        {atEnd ? t.overlay.restart : playing ? t.overlay.pause : t.overlay.play}
                     </button>
-                    <div className="absolute top-2 right-24 text-slate-500 text-xs italic select-none pointer-events-none">
-                        Drag to zoom
-                    </div>
+                    <input
+                        type="range"
+                        min={replayStart}
+                        max={replayEnd}
+                        step={60}
+                        value={head}
+                        onChange={(e) => setPlayhead(Number(e.target.value))}
+                        className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                    <span className="font-mono text-slate-300 w-28 text-right">{formatTime(head, 'dateTime')}</span>
+                    <select
+                        value={replaySpeed}
+                        onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                        className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                    >
+                        {REPLAY_SPEEDS.map(speed => (
+                            <option key={speed.value} value={speed.value}>{t.overlay.perSecond(t.units[speed.unit](String(speed.count)))}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            <CorrelationPanel
+                datasets={datasets}
+                left={left}
+                right={right}
+                ready={overlay.ready}
+                requestCorrelation={overlay.requestCorrelation}
+            />
+        </div>
+    );
+};
+
+const DEPARTURE_THRESHOLDS = [0.01, 0.02, 0.03, 0.05, 0.1];
+
+const formatDuration = (seconds: number, { t, number, fixed }: LocaleTools) => {
+    if (seconds < 3600) return t.units.minutes(number(Math.max(1, Math.round(seconds / 60))));
+    if (seconds < 86400) return t.units.hours(fixed(seconds / 3600, 1));
+    return t.units.days(fixed(seconds / 86400, 1));
+};
+
+// Sum of YES prices across every market of a negRisk event, with departures from 1 shaded
+const OverroundChart = (props: OverroundChartProps) => {
+    const { datasets, polls, detailLevel, downsampleMethod, milestones, alerts, zoomState } = props;
+    const formatTime = useTimeFormat();
+    const tools = useLocale();
+    const { t, number, percent, pts } = tools;
+    const extent = useMemo(() => dataExtent(datasets.map(ds => ds.data)), [datasets]);
+    const chartZoom = useChartZoom(zoomState, extent);
+    const { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, setRange, zoom, bindZoom } = chartZoom;
+    const chartRef = useRef<HTMLDivElement>(null);
+    const [threshold, setThreshold] = useState(0.03);
+    const [departures, setDepartures] = useState<{ threshold: number; list: BookDeparture[] }>({ threshold, list: [] });
+
+    const overlay = useOverlayWorker(
+        datasets,
+        left,
+        right,
+        ({ start, end }) => {
+            const desiredResMinutes = detailLevel || 30;
+            return desiredResMinutes <= 1 ? Infinity : Math.ceil((end - start) / 60 / desiredResMinutes);
+        },
+        downsampleMethod || 'stride',
+        'sum'
+    );
+    // The sum goes stale when any market stops updating, so it breaks in every market's gaps
+    const gapBands = useMemo(() => mergeGaps(datasets.flatMap(ds => findGaps(ds.data))), [datasets]);
+    const displayData = useMemo(() => breakAtGaps(overlay.rows, [{ key: SUM_KEY, gaps: gapBands }]), [overlay.rows, gapBands]);
+    const { ready, requestDepartures } = overlay;
+
+    // Departures are found on the full-resolution sum, not the downsampled view
+    useEffect(() => {
+        if (!ready) return;
+        let cancelled = false;
+        requestDepartures(threshold).then(list => {
+            // null: the merge was replaced meanwhile; the new one asks again
+            if (!cancelled && list) setDepartures({ threshold, list });
+        });
+        return () => { cancelled = true; };
+    }, [ready, requestDepartures, threshold]);
+
+    const flagged = departures.threshold === threshold ? departures.list : [];
+
+    if (!overlay.ready) {
+        return (
+            <div className="w-full h-[600px] bg-slate-900 rounded-xl p-4 border border-slate-800 flex flex-col items-center justify-center gap-3">
+                <span className="text-slate-500">{t.merging(datasets.length)}</span>
+                <div className="w-64 h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(overlay.progress * 100)}%` }} />
+                </div>
+            </div>
+        );
+    }
+
+    if (displayData.length === 0) {
+        return (
+            <div className="w-full h-[600px] bg-slate-900 rounded-xl p-4 border border-slate-800 flex items-center justify-center">
+                <span className="text-slate-500">{t.noData}</span>
+            </div>
+        );
+    }
+
+    const getExportRows = async (source: ExportSource) => {
+        const rows = source === 'raw' ? await overlay.requestRange(left, right) : displayData;
+        return {
+            columns: [...TIME_COLUMNS, { key: SUM_KEY, header: "book_sum" }],
+            rows: rows.map(row => ({ ...row, time: isoTime(row.t) })),
+        };
+    };
+
+    // Pad the window so the departure is visible in context
+    const focus = (d: BookDeparture) => {
+        const pad = Math.max(3600, (d.end - d.start) / 2);
+        setRange({ from: d.start - pad, to: d.end + pad });
+    };
 
+    return (
+        <div className="space-y-6">
+            <div ref={chartRef} className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl select-none">
+                <div className="flex justify-between items-center mb-4 gap-3">
+                    <h2 className="text-xl font-bold text-slate-100 flex-1">
+                        {t.book.title}
+                        <span className="ml-3 text-xs font-normal text-slate-500">
+                            {t.book.info(datasets.length, number(displayData.length), number(overlay.inRange)) + (gapBands.length > 0 ? t.chart.gaps(gapBands.length) : "")}
+                        </span>
+                    </h2>
+                    <label className="text-xs text-slate-400">
+                        {t.book.flagBeyond}
+                        <select
+                            value={threshold}
+                            onChange={(e) => setThreshold(Number(e.target.value))}
+                            className="ml-2 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                        >
+                            {DEPARTURE_THRESHOLDS.map(th => (
+                                <option key={th} value={th}>{pts(th, 0)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <ExportMenu
+                        getRows={getExportRows}
+                        chartRef={chartRef}
+                        title={t.book.title}
+                        filename="book-sum"
+                    />
+                </div>
+                <div className="mb-3">
+                    <ZoomToolbar zoom={chartZoom} milestones={milestones} />
+                </div>
+
+                <div ref={bindZoom} tabIndex={0} className="h-[450px] outline-none">
                     <ResponsiveContainer width="100%" height="100%">
                         <LineChart
                             data={displayData}
-                            onMouseDown={(e: any) => e && setRefAreaLeft(e.activeLabel)}
-                            onMouseMove={(e: any) => {
-                                if (refAreaLeft) {
-                                    e && setRefAreaRight(e.activeLabel);
-                                }
-                                if (e && e.activePayload && e.activePayload.length > 0) {
-                                    setActivePayload(e.activePayload[0].payload);
-                                    setActiveLabel(e.activeLabel);
-                                }
-                            }}
-                            onMouseLeave={() => {
-                                setRefAreaLeft(null);
-                                setRefAreaRight(null);
-                                setActivePayload(null);
-                                setActiveLabel(null);
+                            onMouseDown={(e: MouseHandlerDataParam) => setRefAreaLeft(e.activeLabel ?? null)}
+                            onMouseMove={(e: MouseHandlerDataParam) => {
+                                if (refAreaLeft) setRefAreaRight(e.activeLabel ?? null);
                             }}
                             onMouseUp={zoom}
                         >
@@ -447,27 +1178,38 @@ const MultiChart = (props: MultiChartProps) => {
                             <XAxis
                                 dataKey="t"
                                 type="number"
-                                domain={[left || 'dataMin', right || 'dataMax']}
-                                tickFormatter={(t) => format(new Date(t * 1000), "d MMM HH:mm")}
+                                domain={[left, right]}
+                                tickFormatter={(ts) => formatTime(ts, 'axisDayTime')}
                                 stroke="#94a3b8"
                                 fontSize={11}
                                 allowDataOverflow
                             />
                             <YAxis
-                                domain={[0, 'auto']}
-                                tickFormatter={(val) => `${(val * 100).toFixed(0)}%`}
+                                domain={['auto', 'auto']}
+                                tickFormatter={(val) => percent(val, 0)}
                                 stroke="#94a3b8"
                                 fontSize={12}
                             />
-                            <Tooltip
-                                content={<></>}
-                                cursor={{ stroke: 'white', strokeWidth: 1, strokeDasharray: '4 4' }}
-                            />
-                            {/* Poll Release Markers */}
+                            <Tooltip content={<CustomTooltip />} />
+
+                            {flagged.map(d => (
+                                <ReferenceArea
+                                    key={`dep-${d.start}`}
+                                    x1={d.start}
+                                    x2={d.end}
+                                    fill={d.peak > 0 ? "#ef4444" : "#3b82f6"}
+                                    fillOpacity={0.15}
+                                    ifOverflow="hidden"
+                                />
+                            ))}
+                            <ReferenceLine y={1} stroke="#94a3b8" />
+                            <ReferenceLine y={1 + threshold} stroke="#475569" strokeDasharray="3 3" />
+                            <ReferenceLine y={1 - threshold} stroke="#475569" strokeDasharray="3 3" />
+
                             {polls?.map((poll, idx) => (
                                 <ReferenceLine
                                     key={idx}
-                                    x={new Date(poll.date).getTime() / 1000}
+                                    x={pollTime(poll)}
                                     stroke="#f59e0b"
                                     strokeDasharray="3 3"
                                     strokeOpacity={0.6}
@@ -475,23 +1217,19 @@ const MultiChart = (props: MultiChartProps) => {
                                 />
                             ))}
 
-                            <ReferenceLine x={electionDayStart} stroke="#ef4444" strokeDasharray="3 3" label={{ position: 'top', value: 'Polls Open', fill: '#ef4444', fontSize: 12 }} />
-                            <ReferenceLine x={electionDayEnd} stroke="#ef4444" strokeDasharray="3 3" label={{ position: 'top', value: 'Polls Close', fill: '#ef4444', fontSize: 12 }} />
-
-                            {datasets.map((ds) => (
-                                <Line
-                                    key={ds.id}
-                                    type="monotone"
-                                    dataKey={ds.id}
-                                    name={ds.name}
-                                    stroke={ds.color}
-                                    strokeWidth={2}
-                                    dot={false}
-                                    activeDot={{ r: 4, strokeWidth: 0 }}
-                                    connectNulls
-                                    isAnimationActive={false}
-                                />
-                            ))}
+                            {renderMilestones(milestones)}
+                            {renderGaps(gapBands, t.chart.gap)}
+                            {renderAlerts(alerts, chartZoom.showWindow)}
+
+                            <Line
+                                type="monotone"
+                                dataKey={SUM_KEY}
+                                name={t.book.series}
+                                stroke="#10b981"
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={false}
+                            />
 
                             {refAreaLeft && refAreaRight ? (
                                 <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill="#3b82f6" fillOpacity={0.3} />
@@ -500,6 +1238,258 @@ const MultiChart = (props: MultiChartProps) => {
                     </ResponsiveContainer>
                 </div>
             </div>
+
+            <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+                <h3 className="text-lg font-semibold text-slate-200 mb-1">{t.book.departures}</h3>
+                <p className="text-xs text-slate-500 mb-4">
+                    {t.book.departuresIntro(pts(threshold, 0))}
+                </p>
+                {flagged.length === 0 ? (
+                    <p className="text-sm text-slate-500">{t.book.inside}</p>
+                ) : (
+                    <div className="max-h-[400px] overflow-auto custom-scrollbar">
+                        <table className="w-full text-sm">
+                            <thead className="text-xs text-slate-400 sticky top-0 bg-slate-900 border-b border-slate-800">
+                                <tr>
+                                    <th className="px-2 py-1 text-left">{t.book.start}</th>
+                                    <th className="px-2 py-1 text-right">{t.book.duration}</th>
+                                    <th className="px-2 py-1 text-right">{t.book.peak}</th>
+                                    <th className="px-2 py-1 text-right">{t.book.peakAt}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {flagged.map(d => (
+                                    <tr
+                                        key={d.start}
+                                        onClick={() => focus(d)}
+                                        className="text-slate-300 hover:bg-slate-800 cursor-pointer"
+                                    >
+                                        <td className="px-2 py-1 font-mono">{formatTime(d.start, 'dateTime')}</td>
+                                        <td className="px-2 py-1 text-right font-mono">{formatDuration(d.end - d.start, tools)}</td>
+                                        <td className={`px-2 py-1 text-right font-mono ${d.peak > 0 ? 'text-red-400' : 'text-blue-400'}`}>
+                                            {d.peak > 0 ? '+' : ''}{pts(d.peak)}
+                                        </td>
+                                        <td className="px-2 py-1 text-right font-mono text-slate-500">{formatTime(d.peakT, 'dateTime')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Points per small chart at most; a grid of full-resolution lines is slow to hover
+const GRID_POINTS = 400;
+const NO_ALERTS: AlertMarker[] = [];
+const NO_GAPS: Gap[] = [];
+
+interface GridCellProps {
+    rows: MergedRow[];
+    id: string;
+    color: string;
+    left: number | string;
+    right: number | string;
+    markers: number[];
+    alerts: AlertMarker[];
+    gaps: Gap[];
+    selection: [number | string, number | string] | null;
+    onHover: (index: number | null) => void;
+    onSelectStart: (t: number | string | null) => void;
+    onSelectMove: (t: number | string | null) => void;
+    onSelectEnd: () => void;
+    onJump: (from: number, to: number) => void;
+}
+
+// One market of the grid: own y-scale, shared x-range and crosshair (syncId)
+const GridCell = memo(function GridCell({ rows, id, color, left, right, markers, alerts, gaps, selection, onHover, onSelectStart, onSelectMove, onSelectEnd, onJump }: GridCellProps) {
+    const formatTime = useTimeFormat();
+    const { percent } = useLocale();
+    return (
+        <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+                data={rows}
+                syncId="market-grid"
+                margin={{ top: 5, right: 5, bottom: 0, left: 0 }}
+                onMouseDown={(e: MouseHandlerDataParam) => onSelectStart(e.activeLabel ?? null)}
+                onMouseMove={(e: MouseHandlerDataParam) => {
+                    onSelectMove(e.activeLabel ?? null);
+                    onHover(e.activeTooltipIndex === undefined || e.activeTooltipIndex === null ? null : Number(e.activeTooltipIndex));
+                }}
+                onMouseLeave={() => onHover(null)}
+                onMouseUp={onSelectEnd}
+            >
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis
+                    dataKey="t"
+                    type="number"
+                    domain={[left, right]}
+                    tickFormatter={(ts) => formatTime(ts, 'axisDay')}
+                    stroke="#64748b"
+                    fontSize={10}
+                    allowDataOverflow
+                />
+                <YAxis
+                    domain={['auto', 'auto']}
+                    tickFormatter={(val) => percent(val, val < 0.1 ? 1 : 0)}
+                    stroke="#64748b"
+                    fontSize={10}
+                />
+                <Tooltip content={<></>} cursor={{ stroke: 'white', strokeWidth: 1, strokeDasharray: '4 4' }} />
+                {markers.map(t => (
+                    <ReferenceLine key={t} x={t} stroke="#f59e0b" strokeOpacity={0.3} strokeDasharray="3 3" />
+                ))}
+                {renderGaps(gaps, "")}
+                {renderAlerts(alerts, onJump)}
+                {selection ? (
+                    <ReferenceArea x1={selection[0]} x2={selection[1]} strokeOpacity={0.3} fill="#3b82f6" fillOpacity={0.3} />
+                ) : null}
+                <Line type="monotone" dataKey={id} stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+        </ResponsiveContainer>
+    );
+});
+
+// Small multiples: every market on its own y-axis, one shared timeline
+const GridChart = (props: GridChartProps) => {
+    const { order, polls, detailLevel, downsampleMethod, milestones, alerts, zoomState, onSelect } = props;
+    const formatTime = useTimeFormat();
+    const { t, number, percent } = useLocale();
+    const extent = useMemo(() => dataExtent(props.datasets.map(ds => ds.data)), [props.datasets]);
+    const chartZoom = useChartZoom(zoomState, extent);
+    const { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, zoom, bindZoom } = chartZoom;
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+    const datasets = useMemo(
+        () => props.datasets.map((ds, idx) => ({ ...ds, color: seriesColor(idx) })),
+        [props.datasets]
+    );
+    const ordered = useMemo(() => {
+        if (!order) return datasets;
+        const byId = new Map(datasets.map(ds => [ds.id, ds]));
+        return order.flatMap(id => byId.get(id) ?? []);
+    }, [datasets, order]);
+
+    // Shared merged timeline, so the synced crosshair lands on the same instant everywhere
+    const overlay = useOverlayWorker(
+        datasets,
+        left,
+        right,
+        ({ start, end }) => {
+            const desiredResMinutes = detailLevel || 30;
+            const points = desiredResMinutes <= 1 ? Infinity : Math.ceil((end - start) / 60 / desiredResMinutes);
+            return Math.min(points, GRID_POINTS);
+        },
+        downsampleMethod || 'stride'
+    );
+    const gaps = useMemo(() => datasets.map(ds => ({ key: ds.id, gaps: findGaps(ds.data) })), [datasets]);
+    const gapsById = useMemo(() => new Map(gaps.map(g => [g.key, g.gaps])), [gaps]);
+    const rows = useMemo(() => breakAtGaps(overlay.rows, gaps), [overlay.rows, gaps]);
+
+    // Vertical markers without labels; there is no room for them in a small chart
+    const markers = useMemo(() => [
+        ...(polls ?? []).map(pollTime),
+        ...(milestones ?? []).map(m => m.start),
+    ], [polls, milestones]);
+
+    const selection = useMemo<[number | string, number | string] | null>(
+        () => refAreaLeft !== null && refAreaRight !== null ? [refAreaLeft, refAreaRight] : null,
+        [refAreaLeft, refAreaRight]
+    );
+    // Stable handlers keep the memoized cells from re-rendering on every hover
+    const onSelectMove = useCallback((t: number | string | null) => {
+        if (refAreaLeft !== null) setRefAreaRight(t);
+    }, [refAreaLeft, setRefAreaRight]);
+    const zoomRef = useRef(zoom);
+    useEffect(() => {
+        zoomRef.current = zoom;
+    });
+    const onSelectEnd = useCallback(() => zoomRef.current(), []);
+    const showWindowRef = useRef(chartZoom.showWindow);
+    useEffect(() => {
+        showWindowRef.current = chartZoom.showWindow;
+    });
+    const onJump = useCallback((from: number, to: number) => showWindowRef.current(from, to), []);
+
+    // Each cell gets its own market's hits; a stable empty list keeps the others memoized
+    const alertsById = useMemo(() => {
+        const byId = new Map<string, AlertMarker[]>();
+        for (const marker of alerts ?? []) byId.set(marker.market, [...(byId.get(marker.market) ?? []), marker]);
+        return byId;
+    }, [alerts]);
+
+    if (!overlay.ready) {
+        return (
+            <div className="w-full h-[600px] bg-slate-900 rounded-xl p-4 border border-slate-800 flex flex-col items-center justify-center gap-3">
+                <span className="text-slate-500">{t.merging(datasets.length)}</span>
+                <div className="w-64 h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(overlay.progress * 100)}%` }} />
+                </div>
+            </div>
+        );
+    }
+
+    const hovered = hoverIndex !== null ? rows[hoverIndex] : rows[rows.length - 1];
+
+    return (
+        <div className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl select-none">
+            <div className="flex justify-between items-center mb-3 gap-3">
+                <h2 className="text-xl font-bold text-slate-100 flex-1">
+                    {t.grid.title}
+                    <span className="ml-3 text-xs font-normal text-slate-500">
+                        {t.grid.info(ordered.length, number(rows.length), number(overlay.inRange))}
+                    </span>
+                </h2>
+                <span className="font-mono text-sm text-slate-300">
+                    {hovered ? formatTime(hovered.t, 'dateTime') : ""}
+                </span>
+            </div>
+            <div className="mb-3">
+                <ZoomToolbar zoom={chartZoom} milestones={milestones} />
+            </div>
+
+            <div ref={bindZoom} tabIndex={0} className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 outline-none">
+                {ordered.map(ds => {
+                    const value = hovered?.[ds.id];
+                    return (
+                        <div key={ds.id} className="bg-slate-900/40 rounded border border-slate-700/50 p-2">
+                            <div className="flex justify-between items-baseline gap-2 mb-1 text-sm">
+                                <button
+                                    onClick={() => onSelect?.(ds.id)}
+                                    className="truncate text-left hover:underline"
+                                    style={{ color: ds.color }}
+                                    title={onSelect ? t.grid.open(ds.name) : ds.name}
+                                >
+                                    {ds.name}
+                                </button>
+                                <span className="font-mono text-slate-200">
+                                    {value === undefined || Number.isNaN(value) ? "—" : percent(value)}
+                                </span>
+                            </div>
+                            <div className="h-36">
+                                <GridCell
+                                    rows={rows}
+                                    id={ds.id}
+                                    color={ds.color}
+                                    left={left}
+                                    right={right}
+                                    markers={markers}
+                                    alerts={alertsById.get(ds.id) ?? NO_ALERTS}
+                                    gaps={gapsById.get(ds.id) ?? NO_GAPS}
+                                    selection={selection}
+                                    onHover={setHoverIndex}
+                                    onSelectStart={setRefAreaLeft}
+                                    onSelectMove={onSelectMove}
+                                    onSelectEnd={onSelectEnd}
+                                    onJump={onJump}
+                                />
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
         </div>
     );
 };
@@ -508,5 +1498,14 @@ export default function ChartComponents(props: ChartProps) {
     if (props.mode === "single") {
         return <SingleChart {...props} />;
     }
+    if (props.mode === "candles") {
+        return <CandleChart {...props} />;
+    }
+    if (props.mode === "overround") {
+        return <OverroundChart {...props} />;
+    }
+    if (props.mode === "grid") {
+        return <GridChart {...props} />;
+    }
     return <MultiChart {...props} />;
 }
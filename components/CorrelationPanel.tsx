@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { CorrelationResult } from "@/lib/correlation";
+import type { LocaleTools } from "@/lib/i18n";
+import { useLocale } from "@/lib/useLocale";
+
+interface CorrelationPanelProps {
+    datasets: { id: string; name: string; color: string }[];
+    left: number | string;
+    right: number | string;
+    ready: boolean;
+    requestCorrelation: (left: number | string, right: number | string, step: number, maxLag: number) => Promise<CorrelationResult | null>;
+}
+
+// Grid steps and maximum lags, in seconds
+const STEPS = [60, 300, 900, 3600];
+const MAX_LAGS = [1800, 3600, 3 * 3600, 6 * 3600];
+
+// Pairs shown in the lead-lag table
+const MAX_PAIRS = 15;
+
+// Green for moving together, red for moving apart
+const cellColor = (c: number) => {
+    if (Number.isNaN(c)) return "transparent";
+    return c >= 0 ? `rgba(16, 185, 129, ${Math.abs(c)})` : `rgba(239, 68, 68, ${Math.abs(c)})`;
+};
+
+const formatCorr = (c: number, fixed: LocaleTools['fixed']) => Number.isNaN(c) ? "—" : fixed(c, 2);
+
+const formatLag = (seconds: number, { t, number, fixed }: LocaleTools) => {
+    if (seconds === 0) return t.correlation.sameTime;
+    if (seconds < 3600) return t.units.minutes(number(Math.round(seconds / 60)));
+    return t.units.hours(Number.isInteger(seconds / 3600) ? number(seconds / 3600) : fixed(seconds / 3600, 1));
+};
+
+export default function CorrelationPanel({ datasets, left, right, ready, requestCorrelation }: CorrelationPanelProps) {
+    const tools = useLocale();
+    const { t, number, fixed } = tools;
+    const [step, setStep] = useState(300);
+    const [maxLag, setMaxLag] = useState(3600);
+    const [analysis, setAnalysis] = useState<{ key: string; result: CorrelationResult | null }>({ key: "", result: null });
+
+    // Recomputed in the worker whenever the zoom window or the grid changes
+    const key = `${left}|${right}|${step}|${maxLag}`;
+    useEffect(() => {
+        if (!ready) return;
+        let cancelled = false;
+        requestCorrelation(left, right, step, maxLag).then(result => {
+            // null: superseded by a newer request or merge, which brings its own result
+            if (!cancelled && result) setAnalysis({ key, result });
+        });
+        return () => { cancelled = true; };
+    }, [ready, requestCorrelation, left, right, step, maxLag, key]);
+
+    const byId = useMemo(() => new Map(datasets.map((ds, idx) => [ds.id, { ...ds, idx }])), [datasets]);
+    const result = analysis.result;
+    const stale = analysis.key !== key;
+
+    const pairs = useMemo(() => {
+        if (!result) return [];
+        return [...result.leadLag]
+            .sort((a, b) => Math.abs(b.corr) - Math.abs(a.corr))
+            .slice(0, MAX_PAIRS);
+    }, [result]);
+
+    return (
+        <div className="mt-6 pt-6 border-t border-slate-800 space-y-6">
+            <div className="flex flex-wrap justify-between items-end gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-200">{t.correlation.title}</h3>
+                    <p className="text-xs text-slate-500">
+                        {t.correlation.intro}
+                        {result && t.correlation.samples(number(result.samples), formatLag(result.step, tools))}
+                        {stale && t.correlation.updating}
+                    </p>
+                </div>
+                <div className="flex gap-3 text-xs">
+                    <label className="text-slate-400">
+                        {t.correlation.grid}
+                        <select
+                            value={step}
+                            onChange={(e) => setStep(Number(e.target.value))}
+                            className="block mt-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                        >
+                            {STEPS.map(s => <option key={s} value={s}>{formatLag(s, tools)}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-slate-400">
+                        {t.correlation.maxLag}
+                        <select
+                            value={maxLag}
+                            onChange={(e) => setMaxLag(Number(e.target.value))}
+                            className="block mt-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                        >
+                            {MAX_LAGS.map(l => <option key={l} value={l}>±{formatLag(l, tools)}</option>)}
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            {!result ? (
+                <p className="text-sm text-slate-500">{t.correlation.computing}</p>
+            ) : (
+                <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 ${stale ? 'opacity-60' : ''}`}>
+                    <div className="overflow-auto custom-scrollbar">
+                        <table className="text-xs border-separate border-spacing-0.5">
+                            <thead>
+                                <tr>
+                                    <th />
+                                    {result.ids.map((id, j) => (
+                                        <th key={id} className="w-8 text-slate-500 font-normal" title={byId.get(id)?.name}>{j + 1}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.ids.map((rowId, i) => (
+                                    <tr key={rowId}>
+                                        <td className="pr-2 text-slate-300 whitespace-nowrap max-w-[160px] truncate">
+                                            <span className="text-slate-500 mr-1">{i + 1}</span>
+                                            <span style={{ color: byId.get(rowId)?.color }}>{byId.get(rowId)?.name ?? rowId}</span>
+                                        </td>
+                                        {result.matrix[i].map((c, j) => (
+                                            <td
+                                                key={j}
+                                                className="w-8 h-8 text-center font-mono text-[10px] text-slate-100 rounded-sm"
+                                                style={{ backgroundColor: cellColor(c) }}
+                                                title={`${byId.get(rowId)?.name} × ${byId.get(result.ids[j])?.name}: ${formatCorr(c, fixed)}`}
+                                            >
+                                                {i === j ? "" : formatCorr(c, fixed)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-slate-300 mb-2">{t.correlation.leadLag}</h4>
+                        {pairs.length === 0 ? (
+                            <p className="text-sm text-slate-500">{t.correlation.noPairs}</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead className="text-xs text-slate-400 border-b border-slate-800">
+                                    <tr>
+                                        <th className="px-2 py-1 text-left">{t.correlation.pair}</th>
+                                        <th className="px-2 py-1 text-right">{t.correlation.lead}</th>
+                                        <th className="px-2 py-1 text-right">{t.correlation.corrAtLead}</th>
+                                        <th className="px-2 py-1 text-right">{t.correlation.corrSame}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-slate-300">
+                                    {pairs.map(p => (
+                                        <tr key={`${p.leader}-${p.follower}`} className="border-b border-slate-800/50">
+                                            <td className="px-2 py-1 truncate max-w-[220px]">
+                                                <span style={{ color: byId.get(p.leader)?.color }}>{byId.get(p.leader)?.name}</span>
+                                                <span className="text-slate-500"> → </span>
+                                                <span style={{ color: byId.get(p.follower)?.color }}>{byId.get(p.follower)?.name}</span>
+                                            </td>
+                                            <td className={`px-2 py-1 text-right font-mono ${p.lag > 0 ? 'text-amber-400' : 'text-slate-500'}`}>{formatLag(p.lag, tools)}</td>
+                                            <td className="px-2 py-1 text-right font-mono">{formatCorr(p.corr, fixed)}</td>
+                                            <td className="px-2 py-1 text-right font-mono text-slate-500">{formatCorr(p.corr0, fixed)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
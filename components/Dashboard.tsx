@@ -2,78 +2,280 @@
 
 import { useState, useEffect, useMemo, useRef } from "react";
 import dynamic from "next/dynamic";
+import Link from "next/link";
+import JumpPanel from "./JumpPanel";
+import AlertPanel from "./AlertPanel";
+import CaseFilePanel from "./CaseFilePanel";
+import { detectJumps, type Catalyst } from "@/lib/jumps";
+import { CALENDAR_CATEGORIES, type CalendarCategory, type Milestone } from "@/lib/calendar";
+import { DEFAULT_VIEW_STATE, parseViewState, serializeViewState, type ChartStyle, type SortOrder, type ViewMode } from "@/lib/urlState";
+import type { DownsampleMethod } from "@/lib/downsample";
+import { appendPoints, createDataSource, LIVE_POLL_INTERVAL, marketQuotes, type DataSourceKind } from "@/lib/dataSource";
+import { candidateName, parseApiDate, type DataPoint, type EventFile, type Market, type Poll } from "@/lib/schema";
+import type { MarketTrend } from "@/lib/trends";
+import { loadWatchlist, saveWatchlist } from "@/lib/watchlist";
+import { annotationsFor, loadAnnotations, newAnnotationId, saveAnnotations, type Annotation } from "@/lib/annotations";
+import { seriesColor } from "@/lib/colors";
+import { serializeChartSvg } from "@/lib/exportData";
+import type { ReportSeries } from "@/lib/report";
+import { alertScanner, describeHit, describeRule, hitWindow, loadAlertRules, saveAlertRules, type AlertHit, type AlertMarker, type AlertRule } from "@/lib/alerts";
+import { formatInZone, pollTime, type TimeZoneSetting } from "@/lib/timeZone";
+import { loadTimeZone, saveTimeZone, TimeZoneContext } from "@/lib/useTimeZone";
+import { DATE_FORMATS, DATE_LOCALES, LOCALES, localeTools, MESSAGES, type Locale, type LocaleTools } from "@/lib/i18n";
+import { loadLocale, LocaleContext, saveLocale, useLocale } from "@/lib/useLocale";
+import EventHeader from "./EventHeader";
+import MarketDetails from "./MarketDetails";
+import Sparkline from "./Sparkline";
+import { useZoomState } from "@/lib/useChartZoom";
+
+const ChartLoading = () => {
+    const { t } = useLocale();
+    return <div className="h-[600px] bg-slate-900 rounded-xl flex items-center justify-center text-slate-500">{t.loadingChart}</div>;
+};
 
 // Dynamically import chart to avoid SSR issues
 const ChartComponents = dynamic(() => import("./ChartComponents"), {
     ssr: false,
-    loading: () => <div className="h-[600px] bg-slate-900 rounded-xl flex items-center justify-center text-slate-500">Loading chart...</div>
+    loading: ChartLoading
 });
 
-interface Market {
-    id: string;
-    question: string;
-    points: number;
-    volume: string;
-    currentPrice?: number;
-}
+const PollReactionPanel = dynamic(() => import("./PollReactionPanel"), { ssr: false });
+const VolatilityPanel = dynamic(() => import("./VolatilityPanel"), { ssr: false });
 
-interface DataPoint {
-    t: number;
-    p: number;
+interface DashboardProps {
+    summary: Market[];
+    slug: string;
+    event: EventFile;
+    calendar: Milestone[];
+    trends: Record<string, MarketTrend>;
 }
 
-// Determine base path: empty for local dev, /polymarket_explorer for GitHub Pages
-const getBasePath = () => {
-    if (typeof window === 'undefined') return '';
-    return window.location.hostname.includes('github.io') ? '/polymarket_explorer' : '';
-};
+const CATEGORY_KEYS = Object.keys(CALENDAR_CATEGORIES) as CalendarCategory[];
 
-interface Poll {
-    date: string;
-    firm: string;
-    description: string;
-}
+// Zoom changes closer together than this share one browser history entry
+const ZOOM_GESTURE_MS = 1000;
+
+// Overlay view compares these when the user hasn't picked any markets
+const DEFAULT_OVERLAY_COUNT = 8;
+
+const VOLUME_THRESHOLDS = [100000, 500000, 1000000, 5000000];
 
-export default function Dashboard({ summary }: { summary: Market[] }) {
-    const [volumeThreshold, setVolumeThreshold] = useState(0); // Default to 0 to show more, or user preference
-    const [sortOrder, setSortOrder] = useState<'default' | 'volume' | 'name'>('default');
-    const [viewMode, setViewMode] = useState<'individual' | 'overlay'>('individual');
-    const [detailLevel, setDetailLevel] = useState<number>(30); // Default 30 min stride
+const formatChange = (change: number | null, fixed: LocaleTools['fixed']) =>
+    change === null ? "—" : `${change > 0 ? '+' : ''}${fixed(change * 100, 1)}`;
+
+const changeClass = (change: number | null) =>
+    !change ? "text-slate-500" : change > 0 ? "text-emerald-400" : "text-red-400";
+
+// View state from the query string (client only; the server render just shows "Loading...")
+const readLocationState = () =>
+    typeof window === 'undefined' ? DEFAULT_VIEW_STATE : parseViewState(window.location.search);
+
+export default function Dashboard({ summary, slug, event: snapshotEvent, calendar, trends }: DashboardProps) {
+    const [initialView] = useState(readLocationState);
+    const [volumeThreshold, setVolumeThreshold] = useState(initialView.vol); // Default to 0 to show more, or user preference
+    const [sortOrder, setSortOrder] = useState<SortOrder>(initialView.sort);
+    const [viewMode, setViewMode] = useState<ViewMode>(initialView.view);
+    const [chartStyle, setChartStyle] = useState<ChartStyle>(initialView.chart);
+    const [detailLevel, setDetailLevel] = useState<number>(initialView.res); // Default 30 min stride
+    const [downsampleMethod, setDownsampleMethod] = useState<DownsampleMethod>(initialView.ds);
+    // Shared by every chart of the view, with one undo/redo history
+    const zoomState = useZoomState({ from: initialView.from, to: initialView.to });
+    const { range: zoomRange, setRange: setZoomRange } = zoomState;
     const [mounted, setMounted] = useState(false);
     const [polls, setPolls] = useState<Poll[]>([]);
-    const [showPolls, setShowPolls] = useState(true);
+    const [showPolls, setShowPolls] = useState(initialView.polls);
+    const [overlayIds, setOverlayIds] = useState<string[]>(initialView.overlay);
+    const [sourceKind, setSourceKind] = useState<DataSourceKind>(initialView.source);
+    const [liveEvent, setLiveEvent] = useState<EventFile | null>(null);
+    const [search, setSearch] = useState("");
+    const [watchlist, setWatchlist] = useState<string[]>(() => loadWatchlist(slug));
+    const [timeZone, setTimeZone] = useState<TimeZoneSetting>(loadTimeZone);
+    const [locale, setLocale] = useState<Locale>(loadLocale);
+    const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules(slug));
+    const [annotations, setAnnotations] = useState<Annotation[]>(() => loadAnnotations(slug));
+    const [pendingRange, setPendingRange] = useState<{ start: number; end: number; markets: string[] } | null>(null);
+    const chartRef = useRef<HTMLDivElement>(null);
+    const [visibleCategories, setVisibleCategories] = useState<Record<CalendarCategory, boolean>>(
+        { voting: true, debate: true, poll: true, results: true }
+    );
+
+    const dataSource = useMemo(() => createDataSource(sourceKind, slug), [sourceKind, slug]);
 
     useEffect(() => {
         setMounted(true);
         // Fetch polls
-        const basePath = getBasePath();
-        fetch(`${basePath}/data/polls.json`)
-            .then(res => res.ok ? res.json() : [])
+        dataSource.polls()
             .then(data => setPolls(data))
             .catch(err => console.error("Failed to load polls:", err));
-    }, []);
+    }, [dataSource]);
+
+    // Live mode: refresh prices, volumes and market status from the event endpoint
+    useEffect(() => {
+        if (dataSource.kind !== 'live') return;
+        const refresh = () => dataSource.event()
+            .then(event => setLiveEvent(event))
+            .catch(err => console.error("Failed to refresh quotes:", err));
+        refresh();
+        const timer = setInterval(refresh, LIVE_POLL_INTERVAL);
+        return () => clearInterval(timer);
+    }, [dataSource]);
+
+    const event = dataSource.kind === 'live' && liveEvent ? liveEvent : snapshotEvent;
+    const { title } = event;
+    const updatedAt = parseApiDate(event.updatedAt);
+    // Markets without a history never make the list; the data-health page shows them
+    const emptyCount = summary.filter(m => m.points === 0).length;
+    const negRisk = Boolean(event.negRisk);
+
+    // Snapshot summary with live quotes applied
+    const markets = useMemo(() => {
+        if (dataSource.kind !== 'live' || !liveEvent) return summary;
+        const quotes = marketQuotes(liveEvent);
+        return summary.map(m => {
+            const quote = quotes[m.id];
+            if (!quote) return m;
+            return { ...m, currentPrice: quote.currentPrice ?? m.currentPrice, volume: quote.volume ?? m.volume };
+        });
+    }, [summary, liveEvent, dataSource]);
 
     // Filter and sort summary
     const sortedSummary = useMemo(() => {
-        const filtered = [...summary]
+        const filtered = [...markets]
             .filter(m => m.points > 0 && parseFloat(m.volume) >= volumeThreshold);
 
         if (sortOrder === 'volume') {
             return filtered.sort((a, b) => parseFloat(b.volume) - parseFloat(a.volume));
         } else if (sortOrder === 'name') {
             return filtered.sort((a, b) => a.question.localeCompare(b.question));
+        } else if (sortOrder === 'move24h') {
+            return filtered.sort((a, b) => Math.abs(trends[b.id]?.change24h ?? 0) - Math.abs(trends[a.id]?.change24h ?? 0));
+        } else if (sortOrder === 'volatility') {
+            return filtered.sort((a, b) => (trends[b.id]?.volatility ?? 0) - (trends[a.id]?.volatility ?? 0));
         }
-        // 'default' - sorts by current price (odds) descending
+        // 'price' - current price (odds) descending
         return filtered.sort((a, b) => (b.currentPrice || 0) - (a.currentPrice || 0));
-    }, [summary, volumeThreshold, sortOrder]);
+    }, [markets, volumeThreshold, sortOrder, trends]);
+
+    // Sidebar list: search narrows it, pinned markets come first. Selection still
+    // follows sortedSummary so typing a query never switches the chart.
+    const listedMarkets = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        const matches = query ? sortedSummary.filter(m => m.question.toLowerCase().includes(query)) : sortedSummary;
+        return [
+            ...matches.filter(m => watchlist.includes(m.id)),
+            ...matches.filter(m => !watchlist.includes(m.id)),
+        ];
+    }, [sortedSummary, search, watchlist]);
+
+    const toggleWatch = (id: string) => {
+        const next = watchlist.includes(id) ? watchlist.filter(w => w !== id) : [...watchlist, id];
+        setWatchlist(next);
+        saveWatchlist(slug, next);
+    };
+
+    const changeTimeZone = (zone: TimeZoneSetting) => {
+        setTimeZone(zone);
+        saveTimeZone(zone);
+    };
+
+    const changeLocale = (next: Locale) => {
+        setLocale(next);
+        saveLocale(next);
+    };
+
+    // Screen readers and hyphenation follow the chosen language
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    // Dashboard sits above the locale provider, so it formats with its own tools
+    const tools = useMemo(() => localeTools(locale), [locale]);
+    const { t, number, usd, fixed } = tools;
+
+    // Display names from event.json; markets missing there keep their question
+    const candidateNames = useMemo(
+        () => new Map(event.markets.map(m => [m.id, candidateName(m)])),
+        [event.markets]
+    );
+
+    const changeAlertRules = (rules: AlertRule[]) => {
+        setAlertRules(rules);
+        saveAlertRules(slug, rules);
+    };
 
-    const [selectedId, setSelectedId] = useState<string>("");
+    const changeAnnotations = (next: Annotation[]) => {
+        setAnnotations(next);
+        saveAnnotations(slug, next);
+    };
+
+    const [selectedId, setSelectedId] = useState<string>(initialView.market);
     const [chartData, setChartData] = useState<DataPoint[]>([]);
+    // Market chartData was loaded for; lags selectedId while a fetch is pending
+    const [chartMarket, setChartMarket] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
 
     // For overlay mode: load all charts
     const [allChartData, setAllChartData] = useState<{ id: string; name: string; data: DataPoint[] }[]>([]);
     const [overlayLoading, setOverlayLoading] = useState(false);
+    // Overlay as implied shares: each price divided by the whole book's sum
+    const [normalized, setNormalized] = useState(false);
+
+    // Back/forward: restore the view encoded in the URL
+    useEffect(() => {
+        const onPopState = () => {
+            const state = parseViewState(window.location.search);
+            setSelectedId(state.market);
+            setViewMode(state.view);
+            setChartStyle(state.chart);
+            setDetailLevel(state.res);
+            setDownsampleMethod(state.ds);
+            setVolumeThreshold(state.vol);
+            setSortOrder(state.sort);
+            setShowPolls(state.polls);
+            setOverlayIds(state.overlay);
+            setSourceKind(state.source);
+            setZoomRange({ from: state.from, to: state.to });
+        };
+        window.addEventListener('popstate', onPopState);
+        return () => window.removeEventListener('popstate', onPopState);
+    }, [setZoomRange]);
+
+    // Mirror the view into the query string. Discrete changes push a history entry;
+    // resolution slider drags and the initial auto-selection replace the current one.
+    const lastZoomPushRef = useRef(0);
+    useEffect(() => {
+        if (!mounted) return;
+        const next = {
+            market: selectedId,
+            view: viewMode,
+            chart: chartStyle,
+            res: detailLevel,
+            ds: downsampleMethod,
+            vol: volumeThreshold,
+            sort: sortOrder,
+            polls: showPolls,
+            overlay: overlayIds,
+            source: sourceKind,
+            from: zoomRange.from,
+            to: zoomRange.to,
+        };
+        const search = serializeViewState(next);
+        if (search === window.location.search) return;
+
+        const previous = parseViewState(window.location.search);
+        const onlyResolution = serializeViewState({ ...previous, res: next.res }) === search;
+        // Wheel zooming and panning change the range continuously; one entry per gesture
+        const onlyZoom = serializeViewState({ ...previous, from: next.from, to: next.to }) === search;
+        const now = Date.now();
+        const continuingZoom = onlyZoom && now - lastZoomPushRef.current < ZOOM_GESTURE_MS;
+        if (onlyZoom) lastZoomPushRef.current = now;
+        const url = `${window.location.pathname}${search}${window.location.hash}`;
+        if (!previous.market || onlyResolution || continuingZoom) {
+            window.history.replaceState(null, '', url);
+        } else {
+            window.history.pushState(null, '', url);
+        }
+    }, [mounted, selectedId, viewMode, chartStyle, detailLevel, downsampleMethod, volumeThreshold, sortOrder, showPolls, overlayIds, sourceKind, zoomRange]);
 
     // Set initial selection when data changes
     useEffect(() => {
@@ -85,41 +287,89 @@ export default function Dashboard({ summary }: { summary: Market[] }) {
     // Fetch individual chart data
     useEffect(() => {
         if (!mounted) return;
-        if (selectedId && viewMode === 'individual') {
+        const market = summary.find(m => m.id === selectedId);
+        if (market && viewMode === 'individual') {
             setLoading(true);
-            const basePath = getBasePath();
-            fetch(`${basePath}/data/history_${selectedId}.json`)
-                .then((res) => {
-                    if (!res.ok) throw new Error("Failed to fetch");
-                    return res.json();
-                })
+            dataSource.history(market)
                 .then((data) => {
-                    setChartData(data.history || []);
+                    setChartData(data);
+                    setChartMarket(market.id);
                     setLoading(false);
                 })
                 .catch(err => {
                     console.error(err);
                     setLoading(false);
                     setChartData([]);
+                    setChartMarket(null);
                 });
         }
-    }, [selectedId, viewMode, mounted]);
+    }, [selectedId, viewMode, mounted, summary, dataSource]);
+
+    // Live mode: append new points to the open chart
+    const lastPointT = chartData.length > 0 ? chartData[chartData.length - 1].t : null;
+    useEffect(() => {
+        if (dataSource.kind !== 'live' || viewMode !== 'individual' || lastPointT === null || chartMarket !== selectedId) return;
+        const market = summary.find(m => m.id === selectedId);
+        if (!market) return;
+        let cancelled = false;
+        const timer = setInterval(() => {
+            dataSource.historySince(market, lastPointT)
+                .then(points => {
+                    if (!cancelled) setChartData(data => appendPoints(data, points));
+                })
+                .catch(err => console.error("Live update failed:", err));
+        }, LIVE_POLL_INTERVAL);
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+        };
+    }, [dataSource, viewMode, selectedId, chartMarket, summary, lastPointT]);
+
+    // Markets compared in overlay mode: the user's picks (even if filtered out of the list), else the top of the list
+    const overlayMarkets = useMemo(() => {
+        if (overlayIds.length === 0) return sortedSummary.slice(0, DEFAULT_OVERLAY_COUNT);
+        return summary.filter(m => m.points > 0 && overlayIds.includes(m.id));
+    }, [summary, sortedSummary, overlayIds]);
 
-    // Fetch all data for overlay mode
+    // The book-sum view (and implied shares) need every market of the event, the grid every listed one.
+    // Keyed by id so live quote refreshes (which reorder the list) don't refetch histories.
+    const normalizeBook = viewMode === 'overlay' && negRisk && normalized;
+    const fetchedIds = (viewMode === 'overround' || normalizeBook ? summary.filter(m => m.points > 0) : viewMode === 'grid' ? sortedSummary : overlayMarkets)
+        .map(m => m.id)
+        .sort()
+        .join(",");
+    const fetchedMarkets = useMemo(
+        () => summary.filter(m => fetchedIds.split(",").includes(m.id)),
+        [summary, fetchedIds]
+    );
+
+    // The compared histories; with implied shares on, the rest of the book is loaded only for the denominator
+    const overlayData = useMemo(() => {
+        if (!normalizeBook) return allChartData;
+        const compared = new Set(overlayMarkets.map(m => m.id));
+        return allChartData.filter(ds => compared.has(ds.id));
+    }, [normalizeBook, allChartData, overlayMarkets]);
+
+    const toggleOverlay = (id: string) => {
+        setOverlayIds(ids => ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id]);
+    };
+
+    // Fetch all data for overlay and book-sum modes
     useEffect(() => {
         if (!mounted) return;
-        if (viewMode === 'overlay' && sortedSummary.length > 0) {
+        if (viewMode !== 'individual' && fetchedMarkets.length > 0) {
             setOverlayLoading(true);
-            const basePath = getBasePath();
-            const fetchPromises = sortedSummary.slice(0, 8).map(market =>
-                fetch(`${basePath}/data/history_${market.id}.json`)
-                    .then(res => res.ok ? res.json() : { history: [] })
+            const fetchPromises = fetchedMarkets.map(market =>
+                dataSource.history(market)
                     .then(data => ({
                         id: market.id,
-                        name: market.question.replace(/Will |win the 2026 Portugal presidential election\?/g, '').trim(),
-                        data: (data.history || []) as DataPoint[]
+                        name: candidateNames.get(market.id) ?? market.question,
+                        data
                     }))
-                    .catch(() => ({ id: market.id, name: market.question, data: [] as DataPoint[] }))
+                    .catch(err => {
+                        console.error(err);
+                        return { id: market.id, name: market.question, data: [] as DataPoint[] };
+                    })
             );
 
             Promise.all(fetchPromises).then(results => {
@@ -127,200 +377,596 @@ export default function Dashboard({ summary }: { summary: Market[] }) {
                 setOverlayLoading(false);
             });
         }
-    }, [viewMode, sortedSummary, mounted]);
+    }, [viewMode, fetchedMarkets, mounted, dataSource, candidateNames]);
+
+    // Live mode: append new points to every compared market
+    useEffect(() => {
+        if (dataSource.kind !== 'live' || viewMode === 'individual' || allChartData.length === 0) return;
+        let cancelled = false;
+        const timer = setInterval(() => {
+            Promise.all(allChartData.map(ds => {
+                const market = summary.find(m => m.id === ds.id);
+                return market
+                    ? dataSource.historySince(market, ds.data[ds.data.length - 1].t).then(points => [ds.id, points] as const)
+                    : Promise.resolve([ds.id, []] as const);
+            }))
+                .then(updates => {
+                    if (cancelled || updates.every(([, points]) => points.length === 0)) return;
+                    const byId = new Map<string, DataPoint[]>(updates.map(([id, points]) => [id, [...points]]));
+                    setAllChartData(current => current.map(ds => {
+                        const data = appendPoints(ds.data, byId.get(ds.id) ?? []);
+                        return data === ds.data ? ds : { ...ds, data };
+                    }));
+                })
+                .catch(err => console.error("Live update failed:", err));
+        }, LIVE_POLL_INTERVAL);
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+        };
+    }, [dataSource, viewMode, allChartData, summary]);
 
     const selectedMarket = sortedSummary.find((m) => m.id === selectedId);
+    const selectedEventMarket = event.markets.find((m) => m.id === selectedId);
+
+    // Abnormal moves in the selected market, ranked by proximity to polls / election day
+    const jumpFlags = useMemo(() => {
+        const catalysts: Catalyst[] = [
+            ...polls.map(poll => ({ t: pollTime(poll), label: poll.firm })),
+            ...calendar
+                .filter(m => m.category === 'voting' || m.category === 'poll')
+                .map(m => ({ t: m.start, label: m.label })),
+        ];
+        return detectJumps(chartData, catalysts);
+    }, [chartData, polls, calendar]);
+
+    const visibleMilestones = useMemo(
+        () => calendar.filter(m => visibleCategories[m.category]),
+        [calendar, visibleCategories]
+    );
+
+    // Alert rules run over whatever histories the current view has loaded, so in
+    // live mode appended points are checked as they arrive (and only those are scanned)
+    const [scanAlerts] = useState(alertScanner);
+    const alertHits = useMemo(() => {
+        const series = viewMode === 'individual'
+            ? (chartMarket === null ? [] : [{ id: chartMarket, data: chartData }])
+            : overlayData;
+        return scanAlerts(alertRules, series.filter(s => s.data.length > 0));
+    }, [scanAlerts, alertRules, viewMode, chartMarket, chartData, overlayData]);
+
+    const alertMarkets = useMemo(
+        () => summary.filter(m => m.points > 0).map(m => ({ id: m.id, name: candidateNames.get(m.id) ?? m.question })),
+        [summary, candidateNames]
+    );
 
+    const alertMarkers = useMemo<AlertMarker[]>(() => {
+        const name = (id: string) => candidateNames.get(id) ?? id;
+        return alertHits.map(hit => {
+            const [from, to] = hitWindow(hit);
+            return { market: hit.market, t: hit.t, from, to, label: `${describeRule(hit.rule, name, tools)} · ${describeHit(hit, name, tools)}` };
+        });
+    }, [alertHits, candidateNames, tools]);
+
+    // Case file of the current view: the selected market, or the compared ones in overlay mode
+    const caseMarkets = useMemo(
+        () => viewMode === 'individual' ? [selectedId] : overlayData.map(ds => ds.id),
+        [viewMode, selectedId, overlayData]
+    );
+    const caseAnnotations = useMemo(() => annotationsFor(annotations, caseMarkets), [annotations, caseMarkets]);
+    const caseSeries = useMemo<ReportSeries[]>(() => viewMode === 'individual'
+        ? [{ id: selectedId, name: candidateNames.get(selectedId) ?? selectedId, color: seriesColor(0), data: chartData }]
+        : overlayData.map((ds, idx) => ({ ...ds, color: seriesColor(idx) })),
+    [viewMode, selectedId, candidateNames, chartData, overlayData]);
+
+    const annotateRange = (start: number, end: number) => setPendingRange({ start, end, markets: caseMarkets });
+
+    const saveAnnotation = (fields: Pick<Annotation, 'tag' | 'note' | 'severity'>) => {
+        if (!pendingRange) return;
+        changeAnnotations([...annotations, { id: newAnnotationId(), ...pendingRange, ...fields, created: Date.now() / 1000 }]);
+        setPendingRange(null);
+    };
+
+    // A tenth of the range either side, so its edges are visible
+    const showAnnotation = (annotation: Annotation) => {
+        const margin = (annotation.end - annotation.start) / 10;
+        setZoomRange({ from: annotation.start - margin, to: annotation.end + margin });
+    };
+
+    // The main chart of the view as an SVG, for the report
+    const chartSnapshot = () => {
+        const svg = chartRef.current?.querySelector<SVGSVGElement>("svg.recharts-surface");
+        if (!svg) return undefined;
+        const heading = viewMode === 'individual' && selectedMarket ? selectedMarket.question : title;
+        const range = zoomRange.from !== null && zoomRange.to !== null
+            ? `${formatInZone(zoomRange.from, DATE_FORMATS[locale].dateTime, timeZone, { locale: DATE_LOCALES[locale] })} → ${formatInZone(zoomRange.to, DATE_FORMATS[locale].dateTime, timeZone, { locale: DATE_LOCALES[locale] })}`
+            : "";
+        return serializeChartSvg(svg, [heading, range]).markup;
+    };
+
+    const jumpToHit = (hit: AlertHit) => {
+        if (viewMode === 'individual' && hit.market !== selectedId) setSelectedId(hit.market);
+        const [from, to] = hitWindow(hit);
+        setZoomRange({ from, to });
+    };
+
+    // The stored locale is only read in the browser, so the placeholder matches the
+    // server render in English until mount
     if (!mounted) {
-        return <div className="h-screen bg-slate-950 flex items-center justify-center text-slate-500">Loading...</div>;
+        return <div className="h-screen bg-slate-950 flex items-center justify-center text-slate-500">{MESSAGES.en.loading}</div>;
     }
 
     return (
-        <div className="flex h-screen bg-slate-950 text-slate-200">
-            {/* Sidebar List */}
-            <div className="w-1/4 min-w-[320px] border-r border-slate-800 overflow-y-auto p-4 custom-scrollbar flex flex-col">
-                <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-emerald-400 mb-4">
-                    Market Scanner
-                </h1>
-
-                {/* Controls */}
-                <div className="mb-4 space-y-3 p-3 bg-slate-900 rounded-lg border border-slate-800">
-                    <div>
-                        <label className="block text-xs text-slate-400 mb-1">Minimum Volume</label>
-                        <select
-                            value={volumeThreshold}
-                            onChange={(e) => setVolumeThreshold(Number(e.target.value))}
-                            className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        >
-                            <option value={0}>Show All</option>
-                            <option value={100000}>$100k+</option>
-                            <option value={500000}>$500k+</option>
-                            <option value={1000000}>$1M+</option>
-                            <option value={5000000}>$5M+</option>
-                        </select>
-                    </div>
-                    <div>
-                        <label className="block text-xs text-slate-400 mb-1">Sort Order</label>
-                        <select
-                            value={sortOrder}
-                            onChange={(e) => setSortOrder(e.target.value as any)}
-                            className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        >
-                            <option value="default">Original</option>
-                            <option value="volume">Volume (High to Low)</option>
-                            <option value="name">Name (A-Z)</option>
-                        </select>
-                    </div>
+        <LocaleContext.Provider value={locale}>
+            <TimeZoneContext.Provider value={timeZone}>
+                <div className="flex h-screen bg-slate-950 text-slate-200">
+                    {/* Sidebar List */}
+                    <div className="w-1/4 min-w-[320px] border-r border-slate-800 overflow-y-auto p-4 custom-scrollbar flex flex-col">
+                        <Link href="/" className="text-xs text-slate-500 hover:text-slate-300 mb-2">{t.sidebar.allEvents}</Link>
+                        <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-emerald-400">
+                            {t.sidebar.title}
+                        </h1>
+                        <p className="text-sm text-slate-400 truncate" title={title}>{title}</p>
+                        <p className="flex justify-between gap-2 text-xs text-slate-500 mb-4">
+                            <span>
+                                {updatedAt !== null && t.sidebar.refreshed(formatInZone(updatedAt, DATE_FORMATS[locale].dateTimeYear, timeZone, { locale: DATE_LOCALES[locale] }))}
+                            </span>
+                            <Link href={`/events/${slug}/health`} className="hover:text-slate-300">{t.sidebar.dataHealth}</Link>
+                        </p>
 
-                    <div className="flex items-center justify-between pt-2 border-t border-slate-800">
-                        <label className="text-xs text-slate-400">Show Poll Indicators</label>
-                        <button
-                            onClick={() => setShowPolls(!showPolls)}
-                            className={`w-10 h-5 rounded-full transition-colors relative ${showPolls ? 'bg-blue-600' : 'bg-slate-700'}`}
-                        >
-                            <span className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${showPolls ? 'translate-x-5' : ''}`} />
-                        </button>
-                    </div>
+                        {/* Controls */}
+                        <div className="mb-4 space-y-3 p-3 bg-slate-900 rounded-lg border border-slate-800">
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">{t.sidebar.language}</label>
+                                <select
+                                    value={locale}
+                                    onChange={(e) => changeLocale(e.target.value as Locale)}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {(Object.keys(LOCALES) as Locale[]).map(code => (
+                                        <option key={code} value={code}>{LOCALES[code]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">{t.sidebar.dataSource}</label>
+                                <div className="flex gap-2">
+                                    {(['static', 'live'] as DataSourceKind[]).map(kind => (
+                                        <button
+                                            key={kind}
+                                            onClick={() => setSourceKind(kind)}
+                                            className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${sourceKind === kind
+                                                ? 'bg-blue-600 text-white'
+                                                : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                                }`}
+                                        >
+                                            {kind === 'live' ? <><span className="text-emerald-400">●</span> {t.sidebar.live}</> : t.sidebar.snapshot}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">{t.sidebar.timeZone}</label>
+                                <select
+                                    value={timeZone}
+                                    onChange={(e) => changeTimeZone(e.target.value as TimeZoneSetting)}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {(Object.keys(t.timeZones) as TimeZoneSetting[]).map(zone => (
+                                        <option key={zone} value={zone}>{t.timeZones[zone]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">{t.sidebar.minVolume}</label>
+                                <select
+                                    value={volumeThreshold}
+                                    onChange={(e) => setVolumeThreshold(Number(e.target.value))}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value={0}>{t.sidebar.showAll}</option>
+                                    {VOLUME_THRESHOLDS.map(threshold => (
+                                        <option key={threshold} value={threshold}>{usd(threshold, { notation: 'compact' })}+</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">{t.sidebar.sortOrder}</label>
+                                <select
+                                    value={sortOrder}
+                                    onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {(Object.keys(t.sorts) as SortOrder[]).map(order => (
+                                        <option key={order} value={order}>{t.sorts[order]}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="flex items-center justify-between pt-2 border-t border-slate-800">
+                                <label className="text-xs text-slate-400">{t.sidebar.showPolls}</label>
+                                <button
+                                    onClick={() => setShowPolls(!showPolls)}
+                                    className={`w-10 h-5 rounded-full transition-colors relative ${showPolls ? 'bg-blue-600' : 'bg-slate-700'}`}
+                                >
+                                    <span className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${showPolls ? 'translate-x-5' : ''}`} />
+                                </button>
+                            </div>
+
+                            {CATEGORY_KEYS.filter(category => calendar.some(m => m.category === category)).map(category => (
+                                <div key={category} className="flex items-center justify-between">
+                                    <label className="text-xs text-slate-400 flex items-center gap-2">
+                                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CALENDAR_CATEGORIES[category].color }} />
+                                        {t.calendarCategories[category]}
+                                    </label>
+                                    <button
+                                        onClick={() => setVisibleCategories(prev => ({ ...prev, [category]: !prev[category] }))}
+                                        className={`w-10 h-5 rounded-full transition-colors relative ${visibleCategories[category] ? 'bg-blue-600' : 'bg-slate-700'}`}
+                                    >
+                                        <span className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${visibleCategories[category] ? 'translate-x-5' : ''}`} />
+                                    </button>
+                                </div>
+                            ))}
+
+                            <div className="pt-2 border-t border-slate-800">
+                                <label className="block text-xs text-slate-400 mb-1">
+                                    {detailLevel === 1 ? t.sidebar.resolutionFull : t.sidebar.resolutionStep(detailLevel)}
+                                </label>
+                                <input
+                                    type="range"
+                                    min="1"
+                                    max="180" // Up to 3 hours per point
+                                    step="1"
+                                    value={detailLevel}
+                                    onChange={(e) => setDetailLevel(Number(e.target.value))}
+                                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                />
+                                <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+                                    <span>{t.sidebar.resolutionMin}</span>
+                                    <span>{t.sidebar.resolutionMax}</span>
+                                </div>
+                                <label className="block text-xs text-slate-400 mt-2 mb-1">{t.sidebar.downsampling}</label>
+                                <select
+                                    value={downsampleMethod}
+                                    onChange={(e) => setDownsampleMethod(e.target.value as DownsampleMethod)}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {(Object.keys(t.downsampleMethods) as DownsampleMethod[]).map(method => (
+                                        <option key={method} value={method}>{t.downsampleMethods[method]}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">{t.sidebar.viewMode}</label>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setViewMode('individual')}
+                                        className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${viewMode === 'individual'
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                            }`}
+                                    >
+                                        {t.sidebar.individual}
+                                    </button>
+                                    <button
+                                        onClick={() => setViewMode('overlay')}
+                                        className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${viewMode === 'overlay'
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                            }`}
+                                    >
+                                        {t.sidebar.overlay}
+                                    </button>
+                                    <button
+                                        onClick={() => setViewMode('grid')}
+                                        title={t.sidebar.gridHint}
+                                        className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${viewMode === 'grid'
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                            }`}
+                                    >
+                                        {t.sidebar.grid}
+                                    </button>
+                                    {negRisk && (
+                                        <button
+                                            onClick={() => setViewMode('overround')}
+                                            title={t.sidebar.bookSumHint}
+                                            className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${viewMode === 'overround'
+                                                ? 'bg-blue-600 text-white'
+                                                : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                                }`}
+                                        >
+                                            {t.sidebar.bookSum}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {viewMode === 'individual' && (
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">{t.sidebar.chartStyle}</label>
+                                    <div className="flex gap-2">
+                                        {(['line', 'candles'] as ChartStyle[]).map(style => (
+                                            <button
+                                                key={style}
+                                                onClick={() => setChartStyle(style)}
+                                                className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${chartStyle === style
+                                                    ? 'bg-blue-600 text-white'
+                                                    : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                                    }`}
+                                            >
+                                                {style === 'line' ? t.sidebar.line : t.sidebar.candles}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
 
-                    <div className="pt-2 border-t border-slate-800">
-                        <label className="block text-xs text-slate-400 mb-1">
-                            Resolution: {detailLevel === 1 ? 'Full Detail (1m)' : `~1 pt / ${detailLevel} min`}
-                        </label>
                         <input
-                            type="range"
-                            min="1"
-                            max="180" // Up to 3 hours per point
-                            step="1"
-                            value={detailLevel}
-                            onChange={(e) => setDetailLevel(Number(e.target.value))}
-                            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            type="search"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder={t.sidebar.search}
+                            className="w-full mb-3 bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
                         />
-                        <div className="flex justify-between text-[10px] text-slate-500 mt-1">
-                            <span>Full</span>
-                            <span>3h</span>
+
+                        <div className="flex justify-between items-center text-xs text-slate-500 mb-2">
+                            <span>
+                                {t.sidebar.showing(listedMarkets.length, sortedSummary.length)}
+                                {watchlist.length > 0 && <span className="text-amber-400">{t.sidebar.pinned(watchlist.length)}</span>}
+                                {emptyCount > 0 && <span title={t.sidebar.emptyHint}>{t.sidebar.emptyHidden(emptyCount)}</span>}
+                            </span>
+                            {overlayIds.length > 0 && (
+                                <span>
+                                    <button onClick={() => setViewMode('overlay')} className="text-blue-400 hover:text-blue-300">
+                                        {t.sidebar.compare(overlayIds.length)}
+                                    </button>
+                                    <button onClick={() => setOverlayIds([])} className="ml-2 hover:text-slate-300">
+                                        {t.sidebar.clear}
+                                    </button>
+                                </span>
+                            )}
                         </div>
-                    </div>
 
-                    <div>
-                        <label className="block text-xs text-slate-400 mb-1">View Mode</label>
-                        <div className="flex gap-2">
-                            <button
-                                onClick={() => setViewMode('individual')}
-                                className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${viewMode === 'individual'
-                                    ? 'bg-blue-600 text-white'
-                                    : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
-                                    }`}
-                            >
-                                Individual
-                            </button>
-                            <button
-                                onClick={() => setViewMode('overlay')}
-                                className={`flex-1 px-3 py-2 text-sm rounded transition-colors ${viewMode === 'overlay'
-                                    ? 'bg-blue-600 text-white'
-                                    : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
-                                    }`}
-                            >
-                                Overlay
-                            </button>
+                        <div className="space-y-2 flex-1 overflow-y-auto">
+                            {listedMarkets.map((market) => {
+                                const trend = trends[market.id];
+                                const pinned = watchlist.includes(market.id);
+                                return (
+                                    <div key={market.id} className="relative">
+                                        <button
+                                            onClick={() => { setSelectedId(market.id); setViewMode('individual'); }}
+                                            className={`w-full text-left p-3 rounded-lg transition-all duration-200 border ${selectedId === market.id && viewMode === 'individual'
+                                                ? "bg-slate-800 border-blue-500 text-white shadow-md shadow-blue-900/20"
+                                                : "bg-slate-900/50 border-slate-800 text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+                                                }`}
+                                        >
+                                            <div className="text-sm font-medium line-clamp-2 pr-12">{market.question}</div>
+                                            {trend && (
+                                                <div className="flex items-center gap-3 mt-2 text-xs font-mono">
+                                                    <Sparkline values={trend.spark} label={t.sidebar.sparkline} />
+                                                    <span className={changeClass(trend.change24h)} title={t.sidebar.change24h}>{t.units.hours("24")} {formatChange(trend.change24h, fixed)}</span>
+                                                    <span className={changeClass(trend.change7d)} title={t.sidebar.change7d}>{t.units.days("7")} {formatChange(trend.change7d, fixed)}</span>
+                                                </div>
+                                            )}
+                                            <div className="flex justify-between items-center mt-2 text-xs text-slate-500">
+                                                <span className="font-mono">{t.sidebar.volume(usd(parseFloat(market.volume)))}</span>
+                                                <span className="text-emerald-500">{t.points(number(market.points))}</span>
+                                            </div>
+                                        </button>
+                                        <button
+                                            onClick={() => toggleWatch(market.id)}
+                                            title={pinned ? t.sidebar.unpin : t.sidebar.pin}
+                                            className={`absolute top-2 right-8 text-sm leading-none ${pinned ? 'text-amber-400' : 'text-slate-600 hover:text-slate-400'}`}
+                                        >
+                                            {pinned ? "★" : "☆"}
+                                        </button>
+                                        <input
+                                            type="checkbox"
+                                            checked={overlayIds.includes(market.id)}
+                                            onChange={() => toggleOverlay(market.id)}
+                                            title={t.sidebar.includeInOverlay}
+                                            className="absolute top-3 right-3 accent-blue-500 cursor-pointer"
+                                        />
+                                    </div>
+                                );
+                            })}
                         </div>
                     </div>
-                </div>
 
-                <p className="text-xs text-slate-500 mb-2">Showing {sortedSummary.length} markets</p>
-
-                <div className="space-y-2 flex-1 overflow-y-auto">
-                    {sortedSummary.map((market) => (
-                        <button
-                            key={market.id}
-                            onClick={() => { setSelectedId(market.id); setViewMode('individual'); }}
-                            className={`w-full text-left p-3 rounded-lg transition-all duration-200 border ${selectedId === market.id && viewMode === 'individual'
-                                ? "bg-slate-800 border-blue-500 text-white shadow-md shadow-blue-900/20"
-                                : "bg-slate-900/50 border-slate-800 text-slate-400 hover:bg-slate-800 hover:text-slate-200"
-                                }`}
-                        >
-                            <div className="text-sm font-medium line-clamp-2">{market.question}</div>
-                            <div className="flex justify-between items-center mt-2 text-xs text-slate-500">
-                                <span className="font-mono">Vol: ${(parseFloat(market.volume)).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
-                                <span className="text-emerald-500">{market.points.toLocaleString()} pts</span>
-                            </div>
-                        </button>
-                    ))}
-                </div>
-            </div>
-
-            {/* Main Content */}
-            <div className="flex-1 p-8 overflow-y-auto">
-                {viewMode === 'overlay' ? (
-                    <div className="max-w-6xl mx-auto space-y-6">
-                        <div>
-                            <h2 className="text-3xl font-bold text-white mb-2">All Candidates Overlay</h2>
-                            <p className="text-slate-400">Comparing top {allChartData.length} candidates by volume. Use the slider to zoom.</p>
+                    {/* Main Content */}
+                    <div className="flex-1 p-8 overflow-y-auto">
+                        <div className="max-w-6xl mx-auto mb-6">
+                            <EventHeader event={event} />
                         </div>
-                        {overlayLoading ? (
-                            <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800 animate-pulse">
-                                <span className="text-slate-500">Loading all market data...</span>
+                        {viewMode === 'overround' ? (
+                            <div className="max-w-6xl mx-auto space-y-6">
+                                <div>
+                                    <h2 className="text-3xl font-bold text-white mb-2">{t.views.bookSumTitle}</h2>
+                                    <p className="text-slate-400">
+                                        {t.views.bookSumIntro}
+                                    </p>
+                                </div>
+                                {overlayLoading ? (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800 animate-pulse">
+                                        <span className="text-slate-500">{t.loadingAll}</span>
+                                    </div>
+                                ) : allChartData.length > 0 ? (
+                                    <ChartComponents mode="overround" datasets={allChartData} polls={showPolls ? polls : undefined} detailLevel={detailLevel} downsampleMethod={downsampleMethod} milestones={visibleMilestones} alerts={alertMarkers} zoomState={zoomState} />
+                                ) : (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800">
+                                        <span className="text-slate-500">{t.noData}</span>
+                                    </div>
+                                )}
                             </div>
-                        ) : allChartData.length > 0 ? (
-                            <ChartComponents mode="multi" datasets={allChartData} polls={showPolls ? polls : undefined} detailLevel={detailLevel} />
-                        ) : (
-                            <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800">
-                                <span className="text-slate-500">No data available</span>
-                            </div>
-                        )}
-                    </div>
-                ) : selectedMarket ? (
-                    <div className="max-w-5xl mx-auto space-y-8">
-                        <div className="flex justify-between items-end">
-                            <div>
-                                <h2 className="text-3xl font-bold text-white mb-2">{selectedMarket.question}</h2>
-                                <p className="text-slate-400">
-                                    Market ID: <span className="font-mono text-slate-300">{selectedMarket.id}</span>
-                                </p>
+                        ) : viewMode === 'grid' ? (
+                            <div className="max-w-6xl mx-auto space-y-6">
+                                <div>
+                                    <h2 className="text-3xl font-bold text-white mb-2">{t.views.gridTitle}</h2>
+                                    <p className="text-slate-400">
+                                        {t.views.gridIntro}
+                                    </p>
+                                </div>
+                                {overlayLoading ? (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800 animate-pulse">
+                                        <span className="text-slate-500">{t.loadingAll}</span>
+                                    </div>
+                                ) : allChartData.length > 0 ? (
+                                    <ChartComponents
+                                        mode="grid"
+                                        datasets={allChartData}
+                                        order={sortedSummary.map(m => m.id)}
+                                        polls={showPolls ? polls : undefined}
+                                        detailLevel={detailLevel}
+                                        downsampleMethod={downsampleMethod}
+                                        milestones={visibleMilestones}
+                                        alerts={alertMarkers}
+                                        zoomState={zoomState}
+                                        onSelect={(id) => { setSelectedId(id); setViewMode('individual'); }}
+                                    />
+                                ) : (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800">
+                                        <span className="text-slate-500">{t.noData}</span>
+                                    </div>
+                                )}
                             </div>
-                            <div className="text-right">
-                                <p className="text-sm text-slate-500 uppercase tracking-wider font-semibold">Total Volume</p>
-                                <p className="text-2xl font-mono text-emerald-400">${parseFloat(selectedMarket.volume).toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+                        ) : viewMode === 'overlay' ? (
+                            <div className="max-w-6xl mx-auto space-y-6">
+                                <div>
+                                    <h2 className="text-3xl font-bold text-white mb-2">{t.views.overlayTitle}</h2>
+                                    <p className="text-slate-400">
+                                        {overlayIds.length > 0
+                                            ? t.views.comparingSelected(overlayData.length)
+                                            : t.views.comparingTop(overlayData.length)}
+                                    </p>
+                                </div>
+                                {overlayLoading ? (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800 animate-pulse">
+                                        <span className="text-slate-500">{t.loadingAll}</span>
+                                    </div>
+                                ) : overlayData.length > 0 ? (
+                                    <ChartComponents mode="multi" chartRef={chartRef} datasets={overlayData} book={normalizeBook ? allChartData : undefined} polls={showPolls ? polls : undefined} detailLevel={detailLevel} downsampleMethod={downsampleMethod} normalizable={negRisk} normalized={normalized} onNormalizedChange={setNormalized} milestones={visibleMilestones} alerts={alertMarkers} annotations={caseAnnotations} onAnnotate={annotateRange} zoomState={zoomState} />
+                                ) : (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800">
+                                        <span className="text-slate-500">{t.noData}</span>
+                                    </div>
+                                )}
+                                {!overlayLoading && overlayData.length > 0 && polls.length > 0 && (
+                                    <PollReactionPanel polls={polls} datasets={overlayData} />
+                                )}
+                                {!overlayLoading && overlayData.length > 0 && (
+                                    <CaseFilePanel
+                                        title={title}
+                                        filename={slug}
+                                        annotations={caseAnnotations}
+                                        pending={pendingRange}
+                                        onSave={saveAnnotation}
+                                        onCancel={() => setPendingRange(null)}
+                                        onRemove={(id) => changeAnnotations(annotations.filter(a => a.id !== id))}
+                                        onShow={showAnnotation}
+                                        series={caseSeries}
+                                        polls={polls}
+                                        getOverview={chartSnapshot}
+                                    />
+                                )}
                             </div>
-                        </div>
+                        ) : selectedMarket ? (
+                            <div className="max-w-5xl mx-auto space-y-8">
+                                <div className="flex justify-between items-end">
+                                    <div>
+                                        <h2 className="text-3xl font-bold text-white mb-2">{selectedMarket.question}</h2>
+                                        <p className="text-slate-400">
+                                            {t.views.marketId} <span className="font-mono text-slate-300">{selectedMarket.id}</span>
+                                        </p>
+                                    </div>
+                                    <div className="text-right">
+                                        <p className="text-sm text-slate-500 uppercase tracking-wider font-semibold">{t.views.totalVolume}</p>
+                                        <p className="text-2xl font-mono text-emerald-400">{usd(parseFloat(selectedMarket.volume))}</p>
+                                    </div>
+                                </div>
+
+                                {loading ? (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800 animate-pulse">
+                                        <span className="text-slate-500">{t.views.loadingMarket}</span>
+                                    </div>
+                                ) : chartData.length > 0 ? (
+                                    chartStyle === 'candles' ? (
+                                        <ChartComponents mode="candles" chartRef={chartRef} data={chartData} question={selectedMarket.question} polls={showPolls ? polls : undefined} detailLevel={detailLevel} milestones={visibleMilestones} alerts={alertMarkers} annotations={caseAnnotations} onAnnotate={annotateRange} flags={jumpFlags} zoomState={zoomState} />
+                                    ) : (
+                                        <ChartComponents mode="single" chartRef={chartRef} data={chartData} question={selectedMarket.question} polls={showPolls ? polls : undefined} detailLevel={detailLevel} downsampleMethod={downsampleMethod} milestones={visibleMilestones} alerts={alertMarkers} annotations={caseAnnotations} onAnnotate={annotateRange} flags={jumpFlags} zoomState={zoomState} />
+                                    )
+                                ) : (
+                                    <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800">
+                                        <span className="text-slate-500">{t.views.noChartData}</span>
+                                    </div>
+                                )}
+
+                                {chartData.length > 0 && <VolatilityPanel data={chartData} zoomState={zoomState} />}
+
+                                {chartData.length > 0 && <JumpPanel flags={jumpFlags} />}
+
+                                {selectedEventMarket && <MarketDetails market={selectedEventMarket} />}
 
-                        {loading ? (
-                            <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800 animate-pulse">
-                                <span className="text-slate-500">Loading market data...</span>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                    <CaseFilePanel
+                                        title={title}
+                                        filename={slug}
+                                        annotations={caseAnnotations}
+                                        pending={pendingRange}
+                                        onSave={saveAnnotation}
+                                        onCancel={() => setPendingRange(null)}
+                                        onRemove={(id) => changeAnnotations(annotations.filter(a => a.id !== id))}
+                                        onShow={showAnnotation}
+                                        series={caseSeries}
+                                        polls={polls}
+                                        getOverview={chartSnapshot}
+                                        pointCount={chartData.length}
+                                    />
+                                    <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+                                        <h3 className="text-lg font-semibold text-slate-200 mb-4">{t.views.keyDates}</h3>
+                                        {visibleMilestones.length > 0 ? (
+                                            <ul className="text-slate-400 space-y-2 text-sm">
+                                                {visibleMilestones.map((milestone) => (
+                                                    <li key={milestone.start + milestone.label} className="flex items-baseline gap-2">
+                                                        <span
+                                                            className="w-2 h-2 rounded-full flex-shrink-0"
+                                                            style={{ backgroundColor: CALENDAR_CATEGORIES[milestone.category].color }}
+                                                        />
+                                                        <span>
+                                                            <span className="text-slate-300 font-semibold">{formatInZone(milestone.start, DATE_FORMATS[locale].day, timeZone, { locale: DATE_LOCALES[locale] })}:</span> {milestone.label}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        ) : (
+                                            <p className="text-sm text-slate-500">{t.views.noMilestones}</p>
+                                        )}
+                                    </div>
+                                </div>
                             </div>
-                        ) : chartData.length > 0 ? (
-                            <ChartComponents mode="single" data={chartData} question={selectedMarket.question} polls={showPolls ? polls : undefined} detailLevel={detailLevel} />
                         ) : (
-                            <div className="h-[600px] flex items-center justify-center bg-slate-900/50 rounded-xl border border-slate-800">
-                                <span className="text-slate-500">No chart data available</span>
+                            <div className="h-full flex items-center justify-center text-slate-500">
+                                {sortedSummary.length === 0 ? t.views.noMarkets : t.views.selectMarket}
                             </div>
                         )}
-
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
-                                <h3 className="text-lg font-semibold text-slate-200 mb-4">Investigation Notes</h3>
-                                <ul className="list-disc list-inside text-slate-400 space-y-2 text-sm">
-                                    <li>Look for sharp vertical moves before Jan 16 (Polls).</li>
-                                    <li>Check for sustained accumulation (steady rise).</li>
-                                    <li>This chart has <span className="font-mono text-emerald-400">{chartData.length.toLocaleString()}</span> minute-level data points.</li>
-                                    <li>Use the brush below the chart to zoom into timeframes.</li>
-                                </ul>
-                            </div>
-                            <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
-                                <h3 className="text-lg font-semibold text-slate-200 mb-4">Key Dates</h3>
-                                <ul className="text-slate-400 space-y-2 text-sm">
-                                    <li><span className="text-slate-300 font-semibold">Jan 16:</span> Final polls released</li>
-                                    <li><span className="text-slate-300 font-semibold">Jan 18:</span> Election Day (1st Round)</li>
-                                    <li><span className="text-slate-300 font-semibold">Feb 8:</span> Runoff (if needed)</li>
-                                </ul>
+                        {(viewMode !== 'individual' || selectedMarket) && (
+                            <div className={`${viewMode === 'individual' ? 'max-w-5xl' : 'max-w-6xl'} mx-auto mt-8`}>
+                                <AlertPanel
+                                    slug={slug}
+                                    rules={alertRules}
+                                    onRulesChange={changeAlertRules}
+                                    hits={alertHits}
+                                    markets={alertMarkets}
+                                    rankAvailable={viewMode !== 'individual'}
+                                    onJump={jumpToHit}
+                                />
                             </div>
-                        </div>
-                    </div>
-                ) : (
-                    <div className="h-full flex items-center justify-center text-slate-500">
-                        {sortedSummary.length === 0 ? "No markets with enough volume. Lower threshold." : "Select a market to investigate"}
+                        )}
                     </div>
-                )}
-            </div>
-        </div>
+                </div>
+            </TimeZoneContext.Provider>
+        </LocaleContext.Provider>
     );
 }
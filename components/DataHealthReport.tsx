@@ -0,0 +1,137 @@
+"use client";
+
+import Link from "next/link";
+import { GAP_THRESHOLD, STALE_AFTER, type Gap, type HealthStatus, type MarketHealth } from "@/lib/dataHealth";
+import type { DataHealth } from "@/lib/events";
+import { DATE_FORMATS, DATE_LOCALES, type Locale, type LocaleTools } from "@/lib/i18n";
+import { useSavedLocale } from "@/lib/useLocale";
+import { formatInZone } from "@/lib/timeZone";
+
+// Worst first; markets keep summary.json's order within a status
+const STATUS_ORDER: HealthStatus[] = ['unreadable', 'empty', 'stale', 'gaps', 'ok'];
+
+const STATUS_STYLES: Record<HealthStatus, string> = {
+    unreadable: 'bg-red-900/50 text-red-400',
+    empty: 'bg-red-900/50 text-red-400',
+    stale: 'bg-amber-900/50 text-amber-400',
+    gaps: 'bg-amber-900/50 text-amber-400',
+    ok: 'bg-emerald-900/50 text-emerald-400',
+};
+
+// Timestamps stay in UTC, the zone the histories are fetched in
+const stamp = (t: number | null, locale: Locale) => t === null
+    ? '—'
+    : `${formatInZone(t, DATE_FORMATS[locale].stamp, 'UTC', { locale: DATE_LOCALES[locale] })} UTC`;
+
+// "3d 4h", "5h 12m", "42m"
+const span = (seconds: number, { t, number }: LocaleTools) => {
+    const minutes = Math.round(seconds / 60);
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    if (days > 0) return `${t.units.days(number(days))} ${t.units.hours(number(hours))}`;
+    if (hours > 0) return `${t.units.hours(number(hours))} ${t.units.minutes(number(minutes % 60))}`;
+    return t.units.minutes(number(minutes));
+};
+
+// Dashboard link zoomed onto a gap, with a quarter of its length either side
+const gapLink = (slug: string, id: string, gap: Gap) => {
+    const margin = (gap.end - gap.start) / 4;
+    return `/events/${slug}?market=${id}&from=${Math.round(gap.start - margin)}&to=${Math.round(gap.end + margin)}`;
+};
+
+function MarketRow({ slug, market, tools }: { slug: string; market: MarketHealth; tools: LocaleTools }) {
+    const { t, number, locale } = tools;
+    const gap = market.largestGap;
+    return (
+        <tr className="border-b border-slate-800/50">
+            <td className="px-3 py-2 max-w-[240px] truncate" title={market.name}>
+                {market.points > 0
+                    ? <Link href={`/events/${slug}?market=${market.id}`} className="hover:text-blue-400">{market.name}</Link>
+                    : <span className="text-slate-400">{market.name}</span>}
+            </td>
+            <td className="px-3 py-2">
+                <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[market.status]}`} title={market.error}>
+                    {t.health.statuses[market.status]}
+                </span>
+            </td>
+            <td className="px-3 py-2 text-right font-mono">
+                {number(market.points)}
+                {market.declared !== market.points && (
+                    <span className="ml-1 text-amber-400" title={t.health.declared}>({number(market.declared)})</span>
+                )}
+            </td>
+            <td className="px-3 py-2 font-mono text-xs text-slate-400 whitespace-nowrap">{stamp(market.first, locale)}</td>
+            <td className="px-3 py-2 font-mono text-xs text-slate-400 whitespace-nowrap">{stamp(market.last, locale)}</td>
+            <td className="px-3 py-2 text-right font-mono text-xs whitespace-nowrap">
+                {gap === null ? '—' : (
+                    <Link
+                        href={gapLink(slug, market.id, gap)}
+                        title={`${stamp(gap.start, locale)} → ${stamp(gap.end, locale)}`}
+                        className={gap.end - gap.start >= GAP_THRESHOLD ? 'text-amber-400 hover:text-amber-300' : 'text-slate-400 hover:text-slate-200'}
+                    >
+                        {span(gap.end - gap.start, tools)}
+                    </Link>
+                )}
+                {market.gaps > 1 && <span className="ml-1 text-slate-500">×{number(market.gaps)}</span>}
+            </td>
+            <td className={`px-3 py-2 text-right font-mono text-xs ${market.staleness !== null && market.staleness >= STALE_AFTER ? 'text-amber-400' : 'text-slate-400'}`}>
+                {market.staleness === null ? '—' : span(market.staleness, tools)}
+            </td>
+        </tr>
+    );
+}
+
+// Body of the data-health page; follows the language picked on the dashboard
+export default function DataHealthReport({ slug, title, health }: { slug: string; title: string; health: DataHealth }) {
+    const tools = useSavedLocale();
+    const { t, number, locale } = tools;
+
+    const markets = [...health.markets].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+    const count = (status: HealthStatus) => health.markets.filter(m => m.status === status).length;
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-6">
+            <Link href={`/events/${slug}`} className="text-xs text-slate-500 hover:text-slate-300">{t.health.back}</Link>
+            <div>
+                <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-emerald-400">
+                    {t.health.title}
+                </h1>
+                <p className="mt-1 text-sm text-slate-400">{title}</p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                <div className="p-3 rounded-lg bg-slate-900 border border-slate-800">
+                    <p className="text-xs text-slate-500">{t.health.refreshed}</p>
+                    <p className="font-mono text-slate-200">{stamp(health.updatedAt, locale)}</p>
+                </div>
+                {(['empty', 'stale', 'gaps', 'ok'] as HealthStatus[]).map(status => (
+                    <div key={status} className="p-3 rounded-lg bg-slate-900 border border-slate-800">
+                        <p className="text-xs text-slate-500">{t.health.statuses[status]}</p>
+                        <p className="font-mono text-slate-200">{number(count(status))} / {number(health.markets.length)}</p>
+                    </div>
+                ))}
+            </div>
+
+            <p className="text-xs text-slate-500">{t.health.intro(span(GAP_THRESHOLD, tools), span(STALE_AFTER, tools))}</p>
+
+            <div className="overflow-x-auto rounded-xl border border-slate-800 bg-slate-900">
+                <table className="w-full text-sm">
+                    <thead className="text-xs text-slate-400 border-b border-slate-800">
+                        <tr>
+                            <th className="px-3 py-2 text-left">{t.health.market}</th>
+                            <th className="px-3 py-2 text-left">{t.health.status}</th>
+                            <th className="px-3 py-2 text-right">{t.health.points}</th>
+                            <th className="px-3 py-2 text-left">{t.health.first}</th>
+                            <th className="px-3 py-2 text-left">{t.health.last}</th>
+                            <th className="px-3 py-2 text-right">{t.health.largestGap}</th>
+                            <th className="px-3 py-2 text-right">{t.health.behind}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {markets.map(market => <MarketRow key={market.id} slug={slug} market={market} tools={tools} />)}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
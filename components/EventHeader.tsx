@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import { parseApiDate, type EventFile } from "@/lib/schema";
+import { useTimeFormat } from "@/lib/useTimeZone";
+import { useLocale } from "@/lib/useLocale";
+
+// Event-level context: rules, open interest and where the outcome is resolved from
+export default function EventHeader({ event }: { event: EventFile }) {
+    const [showRules, setShowRules] = useState(false);
+    const formatTime = useTimeFormat();
+    const { t, usd } = useLocale();
+    const formatUsd = (value?: number | null) =>
+        value === null || value === undefined ? "—" : usd(value);
+    const formatDay = (value?: string) => {
+        const t = parseApiDate(value);
+        return t === null ? "—" : formatTime(t, 'date');
+    };
+
+    const resolutionSource = event.resolutionSource?.trim();
+
+    return (
+        <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl text-sm">
+            <div className="flex flex-wrap gap-x-8 gap-y-2 items-center">
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${event.closed ? 'bg-slate-700 text-slate-300' : 'bg-emerald-500/20 text-emerald-400'}`}>
+                    {event.closed ? t.eventHeader.closed(formatDay(event.closedTime)) : t.eventHeader.open}
+                </span>
+                <span className="text-slate-400">
+                    {t.eventHeader.volume} <span className="font-mono text-slate-200">{formatUsd(event.volume)}</span>
+                </span>
+                <span className="text-slate-400">
+                    {t.eventHeader.openInterest} <span className="font-mono text-slate-200">{formatUsd(event.openInterest)}</span>
+                </span>
+                <span className="text-slate-400">
+                    {formatDay(event.startDate)} → {formatDay(event.endDate)}
+                </span>
+                <span className="text-slate-400 truncate max-w-md">
+                    {t.eventHeader.resolutionSource}{" "}
+                    {resolutionSource && /^https?:\/\//.test(resolutionSource)
+                        ? <a href={resolutionSource} target="_blank" rel="noreferrer" className="text-blue-400 hover:text-blue-300">{resolutionSource}</a>
+                        : <span className="text-slate-500">{resolutionSource || t.eventHeader.perRules}</span>}
+                </span>
+                {event.description && (
+                    <button onClick={() => setShowRules(!showRules)} className="ml-auto text-xs text-blue-400 hover:text-blue-300">
+                        {showRules ? t.eventHeader.hideRules : t.eventHeader.showRules}
+                    </button>
+                )}
+            </div>
+            {showRules && event.description && (
+                <p className="mt-3 text-slate-400 whitespace-pre-line">{event.description}</p>
+            )}
+        </div>
+    );
+}
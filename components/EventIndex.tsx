@@ -0,0 +1,38 @@
+"use client";
+
+import Link from "next/link";
+import type { EventListing } from "@/lib/events";
+import { useSavedLocale } from "@/lib/useLocale";
+
+// List of the events in public/data, in the language picked on the dashboard
+export default function EventIndex({ events }: { events: EventListing[] }) {
+    const { t, usd } = useSavedLocale();
+    return (
+        <div className="max-w-4xl mx-auto space-y-6">
+            <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-emerald-400">
+                {t.events.title}
+            </h1>
+            {events.length === 0 ? (
+                <p className="text-slate-500">{t.events.none}</p>
+            ) : (
+                <div className="space-y-3">
+                    {events.map(event => (
+                        <Link
+                            key={event.slug}
+                            href={`/events/${event.slug}`}
+                            className="block p-4 rounded-xl bg-slate-900 border border-slate-800 hover:border-blue-500 transition-colors"
+                        >
+                            <div className="flex justify-between items-center gap-4">
+                                <span className="text-lg font-semibold text-slate-100">{event.title}</span>
+                                <span className={`text-xs px-2 py-1 rounded-full ${event.closed ? 'bg-slate-800 text-slate-400' : 'bg-emerald-900/50 text-emerald-400'}`}>
+                                    {event.closed ? t.events.closed : t.events.open}
+                                </span>
+                            </div>
+                            <p className="mt-2 text-sm text-slate-500 font-mono">{t.events.volume(usd(event.volume))}</p>
+                        </Link>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
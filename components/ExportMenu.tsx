@@ -0,0 +1,98 @@
+import { useState, type RefObject } from "react";
+import {
+    downloadBlob,
+    rasterizeSvg,
+    serializeChartSvg,
+    toCSV,
+    toJSON,
+    type ExportColumn,
+    type ExportRow,
+} from "@/lib/exportData";
+import { useTimeFormat } from "@/lib/useTimeZone";
+import { useLocale } from "@/lib/useLocale";
+
+export type ExportSource = 'display' | 'raw';
+
+interface ExportRows {
+    columns: ExportColumn[];
+    rows: ExportRow[];
+}
+
+interface ExportMenuProps {
+    // Rows for the current zoom window: downsampled as drawn, or every raw point
+    getRows: (source: ExportSource) => ExportRows | Promise<ExportRows>;
+    chartRef: RefObject<HTMLDivElement | null>;
+    title: string;
+    filename: string;
+}
+
+export default function ExportMenu({ getRows, chartRef, title, filename }: ExportMenuProps) {
+    const [open, setOpen] = useState(false);
+    const [source, setSource] = useState<ExportSource>('display');
+    const formatTime = useTimeFormat();
+    const { t } = useLocale();
+    const timeRangeLabel = (rows: ExportRow[]) => {
+        if (rows.length === 0) return "";
+        const first = Number(rows[0].t);
+        const last = Number(rows[rows.length - 1].t);
+        return `${formatTime(first, 'stamp')} → ${formatTime(last, 'stamp')}`;
+    };
+
+    const exportData = async (kind: 'csv' | 'json') => {
+        const { columns, rows } = await getRows(source);
+        // No rows when the data changed while they were being collected
+        if (rows.length === 0) return;
+        const name = `${filename}-${source}.${kind}`;
+        if (kind === 'csv') downloadBlob(toCSV(rows, columns), name, "text/csv");
+        else downloadBlob(toJSON(rows, columns), name, "application/json");
+    };
+
+    const exportImage = async (kind: 'svg' | 'png') => {
+        const svg = chartRef.current?.querySelector<SVGSVGElement>("svg.recharts-surface");
+        if (!svg) return;
+        const caption = [title, timeRangeLabel((await getRows('display')).rows)];
+        const { markup, width, height } = serializeChartSvg(svg, caption);
+        if (kind === 'svg') {
+            downloadBlob(markup, `${filename}.svg`, "image/svg+xml");
+            return;
+        }
+        try {
+            downloadBlob(await rasterizeSvg(markup, width, height), `${filename}.png`, "image/png");
+        } catch (err) {
+            console.error("PNG export failed:", err);
+        }
+    };
+
+    const itemClass = "w-full text-left px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-700 rounded";
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                className="px-3 py-1 rounded text-sm font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+            >
+                {t.exportMenu.button}
+            </button>
+            {open && (
+                <div className="absolute right-0 mt-1 w-48 p-2 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 space-y-1">
+                    <div className="flex gap-1 mb-1">
+                        {(['display', 'raw'] as ExportSource[]).map(s => (
+                            <button
+                                key={s}
+                                onClick={() => setSource(s)}
+                                className={`flex-1 px-2 py-1 text-[11px] rounded ${source === s ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400'}`}
+                            >
+                                {s === 'display' ? t.exportMenu.display : t.exportMenu.raw}
+                            </button>
+                        ))}
+                    </div>
+                    <button className={itemClass} onClick={() => exportData('csv')}>{t.exportMenu.csv}</button>
+                    <button className={itemClass} onClick={() => exportData('json')}>{t.exportMenu.json}</button>
+                    <div className="border-t border-slate-700 my-1" />
+                    <button className={itemClass} onClick={() => exportImage('svg')}>{t.exportMenu.svg}</button>
+                    <button className={itemClass} onClick={() => exportImage('png')}>{t.exportMenu.png}</button>
+                </div>
+            )}
+        </div>
+    );
+}
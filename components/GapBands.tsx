@@ -0,0 +1,19 @@
+import { ReferenceArea } from "recharts";
+import type { Gap } from "@/lib/dataHealth";
+
+// Stretches without data: shaded, and the lines are broken there rather than drawn across.
+// A render function rather than a component: recharts only picks up direct children.
+export const renderGaps = (gaps: Gap[], label: string) => gaps.map((gap) => (
+    <ReferenceArea
+        key={`gap-${gap.start}`}
+        x1={gap.start}
+        x2={gap.end}
+        fill="#64748b"
+        fillOpacity={0.12}
+        stroke="#64748b"
+        strokeOpacity={0.4}
+        strokeDasharray="4 4"
+        ifOverflow="hidden"
+        label={{ position: 'insideBottom', value: label, fill: '#94a3b8', fontSize: 11 }}
+    />
+));
@@ -0,0 +1,80 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { JumpFlag } from "@/lib/jumps";
+import { useTimeFormat } from "@/lib/useTimeZone";
+import { useLocale } from "@/lib/useLocale";
+import type { LocaleTools } from "@/lib/i18n";
+
+type SortKey = 'score' | 'time' | 'change';
+
+const formatLead = (seconds: number, { t, number, fixed }: LocaleTools) => {
+    if (seconds < 3600) return t.units.minutes(number(Math.round(seconds / 60)));
+    return t.units.hours(fixed(seconds / 3600, 1));
+};
+
+export default function JumpPanel({ flags }: { flags: JumpFlag[] }) {
+    const [sortKey, setSortKey] = useState<SortKey>('score');
+    const formatTime = useTimeFormat();
+    const tools = useLocale();
+    const { t, pts, fixed } = tools;
+
+    const sortedFlags = useMemo(() => {
+        const copy = [...flags];
+        if (sortKey === 'time') return copy.sort((a, b) => a.start - b.start);
+        if (sortKey === 'change') return copy.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+        return copy.sort((a, b) => b.score - a.score);
+    }, [flags, sortKey]);
+
+    const headerClass = (key: SortKey) =>
+        `px-2 py-1 text-left cursor-pointer select-none ${sortKey === key ? 'text-blue-400' : 'hover:text-slate-200'}`;
+
+    return (
+        <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-slate-200">{t.jumps.title}</h3>
+                <span className="text-xs text-slate-500">{t.jumps.windows(flags.length)}</span>
+            </div>
+            {sortedFlags.length === 0 ? (
+                <p className="text-sm text-slate-500">{t.jumps.none}</p>
+            ) : (
+                <div className="max-h-80 overflow-y-auto custom-scrollbar">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-slate-400 border-b border-slate-800 sticky top-0 bg-slate-900">
+                            <tr>
+                                <th className={headerClass('time')} onClick={() => setSortKey('time')}>{t.jumps.window}</th>
+                                <th className={headerClass('change')} onClick={() => setSortKey('change')}>{t.jumps.move}</th>
+                                <th className="px-2 py-1 text-left">z</th>
+                                <th className="px-2 py-1 text-left">{t.jumps.before}</th>
+                                <th className={headerClass('score')} onClick={() => setSortKey('score')}>{t.jumps.score}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-slate-300">
+                            {sortedFlags.map((flag) => (
+                                <tr key={flag.start} className="border-b border-slate-800/50">
+                                    <td className="px-2 py-1 font-mono text-xs">
+                                        {formatTime(flag.start, 'dateTime')}–{formatTime(flag.end, 'time')}
+                                    </td>
+                                    <td className={`px-2 py-1 font-mono ${flag.change > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {flag.change > 0 ? '+' : ''}{pts(flag.change)}
+                                    </td>
+                                    <td className="px-2 py-1 font-mono">{fixed(flag.z, 1)}</td>
+                                    <td className="px-2 py-1 text-xs">
+                                        {flag.catalyst ? (
+                                            <span className="text-amber-400 block truncate max-w-[180px]" title={flag.catalyst.label}>
+                                                {formatLead(flag.catalyst.lead, tools)} · {flag.catalyst.label}
+                                            </span>
+                                        ) : (
+                                            <span className="text-slate-600">—</span>
+                                        )}
+                                    </td>
+                                    <td className="px-2 py-1 font-mono">{fixed(flag.score, 1)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
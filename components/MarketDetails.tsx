@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { outcomePrices, parseApiDate, type EventMarket } from "@/lib/schema";
+import { useTimeFormat } from "@/lib/useTimeZone";
+import { useLocale } from "@/lib/useLocale";
+
+type Resolution = 'yes' | 'no' | 'pending' | 'open';
+
+// Resolved markets settle one outcome at 1 and the other at 0
+const resolutionOf = (market: EventMarket): Resolution => {
+    if (!market.closed) return 'open';
+    const [yes] = outcomePrices(market);
+    if (market.umaResolutionStatus === 'resolved' && (yes === 1 || yes === 0)) return yes === 1 ? 'yes' : 'no';
+    return 'pending';
+};
+
+const RESOLUTION_BADGES: Record<Resolution, string> = {
+    yes: "bg-emerald-500/20 text-emerald-400 border-emerald-500/40",
+    no: "bg-red-500/20 text-red-400 border-red-500/40",
+    pending: "bg-amber-500/20 text-amber-400 border-amber-500/40",
+    open: "bg-blue-500/20 text-blue-400 border-blue-500/40",
+};
+
+const Stat = ({ label, value, className = "text-slate-200" }: { label: string; value: string; className?: string }) => (
+    <div>
+        <p className="text-xs text-slate-500 uppercase tracking-wider">{label}</p>
+        <p className={`font-mono ${className}`}>{value}</p>
+    </div>
+);
+
+export default function MarketDetails({ market }: { market: EventMarket }) {
+    const [showRules, setShowRules] = useState(false);
+    const formatTime = useTimeFormat();
+    const { t, usd, pts, fixed } = useLocale();
+    const formatPrice = (value?: number | null) =>
+        value === null || value === undefined ? "—" : t.marketDetails.cents(fixed(value * 100, 1));
+    const formatVolume = (value?: number | string | null) =>
+        value === null || value === undefined || value === "" ? "—" : usd(Number(value));
+    const formatDate = (value?: string) => {
+        const t = parseApiDate(value);
+        return t === null ? "—" : formatTime(t, 'dateTimeYear');
+    };
+
+    const resolution = resolutionOf(market);
+    const prices = outcomePrices(market);
+    const change = market.oneMonthPriceChange;
+
+    return (
+        <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl space-y-4">
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-slate-200">{t.marketDetails.title}</h3>
+                <span className={`text-xs font-semibold px-3 py-1 rounded-full border ${RESOLUTION_BADGES[resolution]}`}>
+                    {t.marketDetails.resolutions[resolution]}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <Stat label={t.marketDetails.outcomePrices} value={prices.length ? t.marketDetails.yesNo(formatPrice(prices[0]), formatPrice(prices[1])) : "—"} />
+                <Stat label={t.marketDetails.lastTrade} value={formatPrice(market.lastTradePrice)} />
+                <Stat label={t.marketDetails.bestAsk} value={formatPrice(market.bestAsk)} />
+                <Stat label={t.marketDetails.spread} value={formatPrice(market.spread)} />
+                <Stat
+                    label={t.marketDetails.change1m}
+                    value={change === null || change === undefined ? "—" : `${change > 0 ? '+' : ''}${pts(change)}`}
+                    className={!change ? "text-slate-200" : change > 0 ? "text-emerald-400" : "text-red-400"}
+                />
+                <Stat label={t.marketDetails.volume1w} value={formatVolume(market.volume1wk)} />
+                <Stat label={t.marketDetails.volume1m} value={formatVolume(market.volume1mo)} />
+                <Stat label={t.marketDetails.volume1y} value={formatVolume(market.volume1yr)} />
+                <Stat label={t.marketDetails.ends} value={formatDate(market.endDate)} />
+                <Stat label={t.marketDetails.closed} value={market.closed ? formatDate(market.closedTime) : "—"} />
+                <Stat label={t.marketDetails.umaStatus} value={market.umaResolutionStatus || "—"} />
+            </div>
+
+            {market.description && (
+                <div>
+                    <button onClick={() => setShowRules(!showRules)} className="text-xs text-blue-400 hover:text-blue-300">
+                        {showRules ? t.marketDetails.hideRules : t.marketDetails.showRules}
+                    </button>
+                    {showRules && (
+                        <p className="mt-2 text-sm text-slate-400 whitespace-pre-line">{market.description}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,202 @@
+import { useMemo, useState } from "react";
+import {
+    LineChart,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ReferenceLine,
+    ResponsiveContainer,
+} from "recharts";
+import { seriesColor } from "@/lib/colors";
+import { averageReaction, computePollReactions } from "@/lib/pollReactions";
+import type { DataPoint, Poll } from "@/lib/schema";
+import { useTimeFormat } from "@/lib/useTimeZone";
+import { useLocale } from "@/lib/useLocale";
+import type { LocaleTools } from "@/lib/i18n";
+
+interface PollReactionPanelProps {
+    polls: Poll[];
+    datasets: { id: string; name: string; data: DataPoint[] }[];
+}
+
+const DEFAULT_WINDOWS = "-24, -1, 1, 24";
+
+const parseWindows = (input: string) =>
+    Array.from(new Set(
+        input.split(",")
+            .map(w => Number(w.trim()))
+            .filter(w => Number.isFinite(w) && w !== 0)
+    )).sort((a, b) => a - b);
+
+const formatChange = (change: number | null, fixed: LocaleTools['fixed']) => {
+    if (change === null) return "—";
+    return `${change > 0 ? '+' : ''}${fixed(change * 100, 1)}`;
+};
+
+// "+24h", "-1h"
+const formatHours = (hours: number, { t, number }: LocaleTools) => t.units.hours(`${hours > 0 ? '+' : ''}${number(hours)}`);
+
+const changeClass = (change: number | null, threshold: number) => {
+    if (change === null) return "text-slate-600";
+    if (Math.abs(change) < threshold) return "text-slate-400";
+    return change > 0 ? "text-emerald-400 font-semibold" : "text-red-400 font-semibold";
+};
+
+export default function PollReactionPanel({ polls, datasets }: PollReactionPanelProps) {
+    const [windowInput, setWindowInput] = useState(DEFAULT_WINDOWS);
+    const [threshold, setThreshold] = useState(0.03);
+    const [spanHours, setSpanHours] = useState(24);
+    const formatTime = useTimeFormat();
+    const tools = useLocale();
+    const { t, percent, pts, fixed } = tools;
+
+    const windows = useMemo(() => parseWindows(windowInput), [windowInput]);
+
+    const reactions = useMemo(
+        () => computePollReactions(polls, datasets, windows, threshold),
+        [polls, datasets, windows, threshold]
+    );
+
+    const average = useMemo(
+        () => averageReaction(polls, datasets, spanHours),
+        [polls, datasets, spanHours]
+    );
+
+    return (
+        <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl space-y-6">
+            <div className="flex flex-wrap justify-between items-end gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-200">{t.pollReactions.title}</h3>
+                    <p className="text-xs text-slate-500">{t.pollReactions.intro}</p>
+                </div>
+                <div className="flex gap-3 text-xs">
+                    <label className="text-slate-400">
+                        {t.pollReactions.windows}
+                        <input
+                            value={windowInput}
+                            onChange={(e) => setWindowInput(e.target.value)}
+                            className="block mt-1 w-36 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono"
+                        />
+                    </label>
+                    <label className="text-slate-400">
+                        {t.pollReactions.highlight}
+                        <select
+                            value={threshold}
+                            onChange={(e) => setThreshold(Number(e.target.value))}
+                            className="block mt-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                        >
+                            {[0.01, 0.02, 0.03, 0.05].map(value => (
+                                <option key={value} value={value}>{pts(value, 0)}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            {reactions.length === 0 ? (
+                <p className="text-sm text-slate-500">{t.pollReactions.none}</p>
+            ) : (
+                <div className="max-h-[500px] overflow-auto custom-scrollbar">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-slate-400 sticky top-0 bg-slate-900 border-b border-slate-800">
+                            <tr>
+                                <th className="px-2 py-1 text-left">{t.pollReactions.candidate}</th>
+                                <th className="px-2 py-1 text-right">{t.pollReactions.atRelease}</th>
+                                {windows.map(w => (
+                                    <th key={w} className={`px-2 py-1 text-right ${w < 0 ? 'text-amber-400/80' : ''}`}>
+                                        {formatHours(w, tools)}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        {reactions.map(reaction => (
+                            <tbody key={reaction.poll.date + reaction.poll.firm} className="border-b border-slate-800">
+                                <tr className={reaction.preMove ? "bg-amber-500/10" : ""}>
+                                    <td colSpan={windows.length + 2} className="px-2 pt-3 pb-1">
+                                        <span className="text-slate-200 font-semibold">{reaction.poll.firm}</span>
+                                        <span className="ml-2 text-xs text-slate-500 font-mono">{formatTime(reaction.t, 'dateTime')}</span>
+                                        <span className="ml-2 text-xs text-slate-500">{reaction.poll.description}</span>
+                                        {reaction.preMove && (
+                                            <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400">
+                                                {t.pollReactions.movedBefore}
+                                            </span>
+                                        )}
+                                    </td>
+                                </tr>
+                                {reaction.candidates.map(c => (
+                                    <tr key={c.id} className="text-slate-300">
+                                        <td className="px-2 py-0.5 truncate max-w-[200px]">{c.name}</td>
+                                        <td className="px-2 py-0.5 text-right font-mono">
+                                            {c.base === null ? "—" : percent(c.base)}
+                                        </td>
+                                        {windows.map(w => (
+                                            <td key={w} className={`px-2 py-0.5 text-right font-mono ${changeClass(c.changes[w], threshold)}`}>
+                                                {formatChange(c.changes[w], fixed)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        ))}
+                    </table>
+                </div>
+            )}
+
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <h4 className="text-sm font-semibold text-slate-300">{t.pollReactions.average}</h4>
+                    <select
+                        value={spanHours}
+                        onChange={(e) => setSpanHours(Number(e.target.value))}
+                        className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                    >
+                        {[6, 24, 72].map(hours => (
+                            <option key={hours} value={hours}>±{t.units.hours(String(hours))}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={average}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                            <XAxis
+                                dataKey="offset"
+                                type="number"
+                                domain={[-spanHours, spanHours]}
+                                tickFormatter={(h) => formatHours(h, tools)}
+                                stroke="#94a3b8"
+                                fontSize={11}
+                            />
+                            <YAxis
+                                tickFormatter={(val) => fixed(val * 100, 1)}
+                                stroke="#94a3b8"
+                                fontSize={11}
+                            />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: "#0f172a", border: "1px solid #334155", fontSize: 12 }}
+                                labelFormatter={(h) => `t ${formatHours(Number(h), tools)}`}
+                                formatter={(val) => `${Number(val) > 0 ? '+' : ''}${pts(Number(val))}`}
+                            />
+                            <ReferenceLine x={0} stroke="#f59e0b" strokeDasharray="3 3" />
+                            <ReferenceLine y={0} stroke="#475569" />
+                            {datasets.map((ds, idx) => (
+                                <Line
+                                    key={ds.id}
+                                    type="monotone"
+                                    dataKey={ds.id}
+                                    name={ds.name}
+                                    stroke={seriesColor(idx)}
+                                    strokeWidth={2}
+                                    dot={false}
+                                    isAnimationActive={false}
+                                />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,18 @@
+// Tiny inline price line for list items; scaled to its own min/max
+export default function Sparkline({ values, width = 80, height = 20, label }: { values: number[]; width?: number; height?: number; label?: string }) {
+    if (values.length < 2) return null;
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const y = (v: number) => max > min ? height - ((v - min) / (max - min)) * height : height / 2;
+    const points = values
+        .map((v, i) => `${(i / (values.length - 1)) * width},${y(v)}`)
+        .join(" ");
+    const rising = values[values.length - 1] >= values[0];
+
+    return (
+        <svg width={width} height={height} className="overflow-visible flex-shrink-0" role="img" aria-label={label}>
+            {label && <title>{label}</title>}
+            <polyline points={points} fill="none" stroke={rising ? "#10b981" : "#ef4444"} strokeWidth={1.5} strokeLinejoin="round" />
+        </svg>
+    );
+}
@@ -0,0 +1,246 @@
+import { useMemo, useState } from "react";
+import {
+    LineChart,
+    Line,
+    BarChart,
+    Bar,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ReferenceArea,
+    ResponsiveContainer,
+} from "recharts";
+import { downsample, rangeIndices } from "@/lib/downsample";
+import { breakAtGaps, findGaps } from "@/lib/dataHealth";
+import { useChartZoom, type ZoomState } from "@/lib/useChartZoom";
+import {
+    largestMove,
+    maxDrawdown,
+    returnStats,
+    rollingVolatility,
+    NORMAL_TAIL_SHARE,
+    type HistogramBin,
+} from "@/lib/volatility";
+import type { DataPoint } from "@/lib/schema";
+import { useTimeFormat } from "@/lib/useTimeZone";
+import { useLocale } from "@/lib/useLocale";
+import type { LocaleTools } from "@/lib/i18n";
+import { renderGaps } from "./GapBands";
+
+interface VolatilityPanelProps {
+    data: DataPoint[];
+    zoomState: ZoomState;
+}
+
+const VOL_WINDOWS = [
+    { value: 15 * 60, unit: 'minutes', count: 15 },
+    { value: 3600, unit: 'hours', count: 1 },
+    { value: 4 * 3600, unit: 'hours', count: 4 },
+    { value: 24 * 3600, unit: 'days', count: 1 },
+] as const;
+
+// Points drawn in the volatility sub-chart; min/max keeps the spikes
+const VOL_CHART_POINTS = 600;
+
+// Context shown on either side of a moment the user jumps to
+const MIN_JUMP_PADDING = 3600;
+
+const signedPts = (value: number, pts: LocaleTools['pts']) => `${value > 0 ? '+' : ''}${pts(value)}`;
+
+const HistogramTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: HistogramBin }[] }) => {
+    const { t, number, pts } = useLocale();
+    if (!active || !payload || !payload.length) return null;
+    const bin = payload[0].payload;
+    return (
+        <div className="bg-slate-900/80 border border-slate-700/50 p-2 rounded text-xs text-slate-300">
+            <p className="font-mono">{signedPts(bin.from, pts)} … {signedPts(bin.to, pts)}</p>
+            <p>{t.volatility.inBin(number(bin.count))}</p>
+        </div>
+    );
+};
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+    <div title={hint}>
+        <p className="text-xs text-slate-500 uppercase tracking-wider">{label}</p>
+        <p className="font-mono text-slate-200">{value}</p>
+    </div>
+);
+
+// Risk view of the selected market; statistics cover the zoomed range of the main chart
+export default function VolatilityPanel({ data, zoomState }: VolatilityPanelProps) {
+    const extent = useMemo(() => data.length > 1 ? { start: data[0].t, end: data[data.length - 1].t } : null, [data]);
+    const { left, right, refAreaLeft, refAreaRight, setRefAreaLeft, setRefAreaRight, setRange, zoom, bindZoom } = useChartZoom(zoomState, extent);
+    const [volWindow, setVolWindow] = useState(3600);
+    const formatTime = useTimeFormat();
+    const { t, number, percent, pts, fixed } = useLocale();
+    const windowLabel = (value: number) => {
+        const entry = VOL_WINDOWS.find(w => w.value === value);
+        return entry ? t.units[entry.unit](number(entry.count)) : "";
+    };
+    const formatMoment = (t: number) => formatTime(t, 'dateTime');
+
+    const gaps = useMemo(() => findGaps(data), [data]);
+    const volatility = useMemo(() => rollingVolatility(data, volWindow), [data, volWindow]);
+    const volDisplay = useMemo(
+        () => breakAtGaps(downsample(volatility, left, right, VOL_CHART_POINTS, 'minmax', ["vol"]), [{ key: "vol", gaps }]),
+        [volatility, left, right, gaps]
+    );
+
+    const visible = useMemo(() => {
+        const [start, end] = rangeIndices(data.map(d => d.t), left, right);
+        return data.slice(start, end);
+    }, [data, left, right]);
+
+    // Unzoomed, the axis spans the price history: the volatility series starts a
+    // warm-up window later, and would otherwise not line up with the main chart
+    const domain: [number | string, number | string] = [
+        typeof left === 'number' ? left : extent?.start ?? 'dataMin',
+        typeof right === 'number' ? right : extent?.end ?? 'dataMax',
+    ];
+
+    const stats = useMemo(() => returnStats(visible), [visible]);
+    const drawdown = useMemo(() => maxDrawdown(visible), [visible]);
+    const move = useMemo(() => largestMove(visible), [visible]);
+
+    // Zoom the shared range onto [from, to] with some context around it
+    const jumpTo = (from: number, to: number) => {
+        const padding = Math.max(MIN_JUMP_PADDING, to - from);
+        setRange({ from: from - padding, to: to + padding });
+    };
+
+    return (
+        <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl space-y-6 select-none">
+            <div className="flex justify-between items-end gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-200">{t.volatility.title}</h3>
+                    <p className="text-xs text-slate-500">{t.volatility.intro(number(visible.length))}</p>
+                </div>
+                <label className="text-xs text-slate-400">
+                    {t.volatility.window}
+                    <select
+                        value={volWindow}
+                        onChange={(e) => setVolWindow(Number(e.target.value))}
+                        className="block mt-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                    >
+                        {VOL_WINDOWS.map(w => <option key={w.value} value={w.value}>{windowLabel(w.value)}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            {/* Same width and axis as the main chart so the two line up */}
+            {volDisplay.length > 0 ? (
+                <div ref={bindZoom} tabIndex={0} className="outline-none">
+                    <LineChart
+                        width={900}
+                        height={180}
+                        data={volDisplay}
+                        onMouseDown={(e) => e && setRefAreaLeft(e.activeLabel as string)}
+                        onMouseMove={(e) => refAreaLeft && e && setRefAreaRight(e.activeLabel as string)}
+                        onMouseUp={zoom}
+                    >
+                        <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                        <XAxis
+                            dataKey="t"
+                            type="number"
+                            domain={domain}
+                            tickFormatter={(unixTime) => formatTime(unixTime, 'axisDay')}
+                            stroke="#94a3b8"
+                            fontSize={12}
+                            allowDataOverflow
+                        />
+                        <YAxis
+                            tickFormatter={(val) => fixed(val * 100, 1)}
+                            stroke="#94a3b8"
+                            fontSize={12}
+                        />
+                        <Tooltip
+                            labelFormatter={(t) => formatMoment(Number(t))}
+                            formatter={(value) => [pts(Number(value), 2), t.volatility.realized]}
+                            contentStyle={{ backgroundColor: "#0f172a", border: "1px solid #334155", fontSize: 12 }}
+                        />
+                        {renderGaps(gaps, t.chart.gap)}
+                        {refAreaLeft && refAreaRight ? (
+                            <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill="#3b82f6" fillOpacity={0.3} />
+                        ) : null}
+                        <Line type="monotone" dataKey="vol" stroke="#a855f7" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                    </LineChart>
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500">{t.volatility.tooShort(windowLabel(volWindow))}</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <h4 className="text-sm font-semibold text-slate-300 mb-2">{t.volatility.distribution}</h4>
+                    {stats && stats.bins.length > 0 ? (
+                        <>
+                            <div className="h-40">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={stats.bins} barCategoryGap={1}>
+                                        <XAxis dataKey="from" hide />
+                                        <YAxis scale="sqrt" hide />
+                                        <Tooltip content={<HistogramTooltip />} cursor={{ fill: "#334155", fillOpacity: 0.4 }} />
+                                        <Bar dataKey="count" fill="#3b82f6" isAnimationActive={false} />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                            <p className="text-xs text-slate-500 mt-1">{t.volatility.distributionNote}</p>
+                            <div className="grid grid-cols-3 gap-3 mt-3 text-sm">
+                                <Stat label={t.volatility.sigma} value={pts(stats.std, 2)} />
+                                <Stat label={t.volatility.skew} value={fixed(stats.skew, 2)} />
+                                <Stat label={t.volatility.kurtosis} value={fixed(stats.kurtosis, 1)} hint={t.volatility.kurtosisHint} />
+                                <Stat
+                                    label={t.volatility.tail}
+                                    value={percent(stats.tailShare, 2)}
+                                    hint={t.volatility.tailHint(percent(NORMAL_TAIL_SHARE, 2))}
+                                />
+                                <Stat label={t.volatility.returns} value={number(stats.count)} />
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-sm text-slate-500">{t.volatility.flat}</p>
+                    )}
+                </div>
+
+                <div>
+                    <h4 className="text-sm font-semibold text-slate-300 mb-2">{t.volatility.extremes}</h4>
+                    <div className="space-y-3 text-sm">
+                        <div className="bg-slate-800/50 rounded-lg p-3">
+                            <p className="text-xs text-slate-500 uppercase tracking-wider">{t.volatility.drawdown}</p>
+                            {drawdown ? (
+                                <>
+                                    <p className="font-mono text-red-400 text-lg">-{pts(drawdown.drawdown)}</p>
+                                    <p className="text-slate-400 text-xs">
+                                        {percent(drawdown.peak)} → {percent(drawdown.trough)}
+                                    </p>
+                                    <button onClick={() => jumpTo(drawdown.peakT, drawdown.troughT)} className="text-xs text-blue-400 hover:text-blue-300 font-mono">
+                                        {formatMoment(drawdown.peakT)} → {formatMoment(drawdown.troughT)}
+                                    </button>
+                                </>
+                            ) : (
+                                <p className="text-slate-500">{t.volatility.noDecline}</p>
+                            )}
+                        </div>
+                        <div className="bg-slate-800/50 rounded-lg p-3">
+                            <p className="text-xs text-slate-500 uppercase tracking-wider">{t.volatility.largestMove}</p>
+                            {move ? (
+                                <>
+                                    <p className={`font-mono text-lg ${move.change > 0 ? 'text-emerald-400' : 'text-red-400'}`}>{signedPts(move.change, pts)}</p>
+                                    <p className="text-slate-400 text-xs">
+                                        {t.volatility.moveIn(percent(move.from), percent(move.to), number(Math.max(1, Math.round((move.end - move.start) / 60))))}
+                                    </p>
+                                    <button onClick={() => jumpTo(move.start, move.end)} className="text-xs text-blue-400 hover:text-blue-300 font-mono">
+                                        {formatMoment(move.end)}
+                                    </button>
+                                </>
+                            ) : (
+                                <p className="text-slate-500">{t.volatility.noMoves}</p>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
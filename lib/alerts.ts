@@ -0,0 +1,329 @@
+// User-defined alert rules, evaluated over the loaded price histories. Rules are
+// kept per event in localStorage and can be shared as JSON files.
+
+import type { LocaleTools } from "./i18n";
+import { mergeForwardFill } from "./merge";
+import type { DataPoint } from "./schema";
+
+export type CrossDirection = 'up' | 'down' | 'either';
+
+interface RuleBase {
+    id: string;
+    market: string | null; // market id, or null for every market of the event
+}
+
+// Price crosses `level` (0-1 scale)
+export interface CrossRule extends RuleBase {
+    kind: 'cross';
+    level: number;
+    direction: CrossDirection;
+}
+
+// Price moves at least `change` (0-1 scale) within `minutes`
+export interface MoveRule extends RuleBase {
+    kind: 'move';
+    change: number;
+    minutes: number;
+}
+
+// Order of the `top` highest-priced markets changes
+export interface RankRule extends RuleBase {
+    kind: 'rank';
+    top: number;
+}
+
+export type AlertRule = CrossRule | MoveRule | RankRule;
+export type AlertKind = AlertRule['kind'];
+
+export interface AlertHit {
+    rule: AlertRule;
+    market: string;
+    t: number;       // moment the rule fired
+    start: number;   // start of the move; equals t for crossings and rank changes
+    from: number;    // price before/after for cross and move, rank before/after for rank
+    to: number;
+    other?: string;  // rank: the market it traded places with
+}
+
+// A hit as drawn on a chart; clicking it zooms to [from, to]
+export interface AlertMarker {
+    market: string;
+    t: number;
+    from: number;
+    to: number;
+    label: string;
+}
+
+export interface AlertSeries {
+    id: string;
+    data: DataPoint[];
+}
+
+// Result of one evaluation, kept so the next one only scans appended points
+export interface AlertEvaluation {
+    rules: AlertRule[];
+    series: AlertSeries[];
+    hits: AlertHit[];
+}
+
+// After a hit, the same rule stays quiet on that market for this long, so a
+// price hovering around a level (or two markets trading places) doesn't flood the list
+export const ALERT_COOLDOWN = 3600;
+
+// Margin around a hit when jumping to it, in seconds
+const JUMP_MARGIN = 30 * 60;
+
+export const ALERT_KINDS: AlertKind[] = ['cross', 'move', 'rank'];
+
+export const newRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Zoom window showing a hit with some context either side
+export const hitWindow = (hit: AlertHit): [number, number] => [hit.start - JUMP_MARGIN, hit.t + JUMP_MARGIN];
+
+// `next` only extends `previous` if every history is the same or has points appended
+const extendsSeries = (previous: AlertSeries[], next: AlertSeries[]) =>
+    previous.length === next.length && previous.every((s, k) => {
+        const { id, data } = next[k];
+        return id === s.id && (data === s.data ||
+            (data.length >= s.data.length && data[s.data.length - 1] === s.data[s.data.length - 1]));
+    });
+
+// Every rule is causal: hits up to a moment depend only on the points up to it. So when
+// `previous` covered the same rules on a prefix of the same histories, its hits up to
+// the earliest history end are kept and only what follows is scanned, with the
+// cooldowns picked up from the kept hits.
+export function evaluateAlerts(rules: AlertRule[], series: AlertSeries[], previous?: AlertEvaluation | null): AlertEvaluation {
+    const resume = previous && previous.rules === rules && extendsSeries(previous.series, series);
+    const until = resume ? Math.min(...previous.series.map(s => s.data[s.data.length - 1]?.t ?? -Infinity)) : -Infinity;
+    const kept = resume ? previous.hits.filter(hit => hit.t <= until) : [];
+
+    // End of the cooldown left by the kept hits of a rule on a market
+    const quiet = (rule: AlertRule, market: string) => {
+        let last = -Infinity;
+        for (const hit of kept) {
+            if (hit.rule === rule && hit.market === market) last = Math.max(last, hit.t + ALERT_COOLDOWN);
+        }
+        return last;
+    };
+
+    const hits: AlertHit[] = [...kept];
+    for (const rule of rules) {
+        if (rule.kind === 'rank') {
+            hits.push(...rankHits(rule, series, until, quiet));
+            continue;
+        }
+        for (const s of series) {
+            if (rule.market !== null && rule.market !== s.id) continue;
+            const quietUntil = quiet(rule, s.id);
+            hits.push(...(rule.kind === 'cross' ? crossHits(rule, s, until, quietUntil) : moveHits(rule, s, until, quietUntil)));
+        }
+    }
+    return { rules, series, hits: hits.sort((a, b) => a.t - b.t) };
+}
+
+// Evaluator for one view: each call reuses the previous result, so live appends only
+// cost the new points
+export function alertScanner() {
+    let last: AlertEvaluation | null = null;
+    return (rules: AlertRule[], series: AlertSeries[]) => {
+        last = evaluateAlerts(rules, series, last);
+        return last.hits;
+    };
+}
+
+// Index of the first point after `t`
+const firstAfter = (data: DataPoint[], t: number) => {
+    let lo = 0;
+    let hi = data.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (data[mid].t <= t) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+function crossHits(rule: CrossRule, { id, data }: AlertSeries, until: number, quietFrom: number): AlertHit[] {
+    const hits: AlertHit[] = [];
+    let quietUntil = quietFrom;
+    for (let i = Math.max(1, firstAfter(data, until)); i < data.length; i++) {
+        const prev = data[i - 1].p;
+        const cur = data[i].p;
+        const up = prev < rule.level && cur >= rule.level;
+        const down = prev >= rule.level && cur < rule.level;
+        const fired = rule.direction === 'up' ? up : rule.direction === 'down' ? down : up || down;
+        if (!fired || data[i].t < quietUntil) continue;
+        hits.push({ rule, market: id, t: data[i].t, start: data[i].t, from: prev, to: cur });
+        quietUntil = data[i].t + ALERT_COOLDOWN;
+    }
+    return hits;
+}
+
+// Rolling min/max over the window via monotonic index queues, O(n). Resuming starts one
+// window before `until` so the queues hold what they would have after a full scan.
+function moveHits(rule: MoveRule, { id, data }: AlertSeries, until: number, quietFrom: number): AlertHit[] {
+    const hits: AlertHit[] = [];
+    const window = rule.minutes * 60;
+    const lows: number[] = [];
+    const highs: number[] = [];
+    let lowHead = 0;
+    let highHead = 0;
+    let quietUntil = quietFrom;
+    for (let i = firstAfter(data, until - window - 1); i < data.length; i++) {
+        const { t, p } = data[i];
+        while (lows.length > lowHead && data[lows[lows.length - 1]].p >= p) lows.pop();
+        lows.push(i);
+        while (highs.length > highHead && data[highs[highs.length - 1]].p <= p) highs.pop();
+        highs.push(i);
+        while (data[lows[lowHead]].t < t - window) lowHead++;
+        while (data[highs[highHead]].t < t - window) highHead++;
+        if (t <= until || t < quietUntil) continue;
+
+        const low = data[lows[lowHead]];
+        const high = data[highs[highHead]];
+        const extreme = p - low.p >= rule.change ? low : high.p - p >= rule.change ? high : null;
+        if (!extreme) continue;
+        hits.push({ rule, market: id, t, start: extreme.t, from: extreme.p, to: p });
+        quietUntil = t + ALERT_COOLDOWN;
+    }
+    return hits;
+}
+
+// Ranks are 1-based among the markets priced at each instant of the merged timeline.
+// Only the points from each market's last one at `until` onwards are merged: the rows
+// up to `until` just restore the order the scan left off with.
+function rankHits(rule: RankRule, series: AlertSeries[], until: number, quiet: (rule: AlertRule, market: string) => number): AlertHit[] {
+    if (series.length < 2) return [];
+    const merged = mergeForwardFill(series.map(s => {
+        const tail = s.data.slice(Math.max(0, firstAfter(s.data, until) - 1));
+        return { id: s.id, t: Float64Array.from(tail, d => d.t), p: Float64Array.from(tail, d => d.p) };
+    }));
+    const { ids, t, values } = merged;
+    const hits: AlertHit[] = [];
+    const quietUntil = new Map(ids.map(id => [id, quiet(rule, id)]));
+    let previous: string[] | null = null;
+
+    for (let i = 0; i < t.length; i++) {
+        const order = ids
+            .map((id, k) => ({ id, p: values[k][i] }))
+            .filter(entry => !Number.isNaN(entry.p))
+            .sort((a, b) => b.p - a.p)
+            .map(entry => entry.id);
+        if (previous === null || t[i] <= until) {
+            previous = order;
+            continue;
+        }
+        const top = order.slice(0, rule.top);
+        const unchanged = top.length === previous.slice(0, rule.top).length && top.every((id, r) => previous![r] === id);
+        if (!unchanged) {
+            // Markets that climbed into or within the top, or (when scoped) the market itself
+            for (let r = 0; r < top.length; r++) {
+                const id = top[r];
+                const before = previous.indexOf(id);
+                const climbed = before === -1 || before > r;
+                if (rule.market === null ? !climbed : rule.market !== id) continue;
+                if (before === r) continue;
+                if (t[i] < (quietUntil.get(id) ?? -Infinity)) continue;
+                hits.push({
+                    rule,
+                    market: id,
+                    t: t[i],
+                    start: t[i],
+                    from: before === -1 ? order.length : before + 1,
+                    to: r + 1,
+                    other: previous[r],
+                });
+                quietUntil.set(id, t[i] + ALERT_COOLDOWN);
+            }
+            // A scoped market dropping out of the top
+            if (rule.market !== null && !top.includes(rule.market)) {
+                const before = previous.indexOf(rule.market);
+                if (before !== -1 && before < rule.top && t[i] >= (quietUntil.get(rule.market) ?? -Infinity)) {
+                    const now = order.indexOf(rule.market);
+                    hits.push({
+                        rule,
+                        market: rule.market,
+                        t: t[i],
+                        start: t[i],
+                        from: before + 1,
+                        to: now === -1 ? order.length : now + 1,
+                        other: top[before],
+                    });
+                    quietUntil.set(rule.market, t[i] + ALERT_COOLDOWN);
+                }
+            }
+        }
+        previous = order;
+    }
+    return hits;
+}
+
+// Whole percents without decimals ("40%"), others with one ("42.5%")
+const digits = (value: number) => Math.round(value * 1000) % 10 === 0 ? 0 : 1;
+
+// "Ventura: crosses 40% upward"
+export function describeRule(rule: AlertRule, name: (id: string) => string, { t, percent, pts }: LocaleTools) {
+    const scope = rule.market === null ? t.alerts.allMarkets : name(rule.market);
+    const text = rule.kind === 'cross'
+        ? t.alerts.cross(percent(rule.level, digits(rule.level)), t.alerts.directions[rule.direction])
+        : rule.kind === 'move'
+            ? t.alerts.move(pts(rule.change, digits(rule.change)), rule.minutes)
+            : t.alerts.rank(rule.top);
+    return `${scope}: ${text}`;
+}
+
+// "38.2% → 40.1%" or "#2 → #1 · past Gouveia e Melo"
+export function describeHit(hit: AlertHit, name: (id: string) => string, { t, percent }: LocaleTools) {
+    if (hit.rule.kind !== 'rank') return `${percent(hit.from)} → ${percent(hit.to)}`;
+    const moved = t.alerts.rankMove(hit.from, hit.to);
+    if (!hit.other || hit.other === hit.market) return moved;
+    return `${moved} · ${hit.to < hit.from ? t.alerts.past(name(hit.other)) : t.alerts.behind(name(hit.other))}`;
+}
+
+// Rules from an imported file or storage; malformed entries are dropped
+export function parseAlertRules(raw: unknown): AlertRule[] {
+    const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown } | null)?.rules;
+    if (!Array.isArray(list)) throw new Error("Expected a list of alert rules");
+    return list.flatMap((entry): AlertRule[] => {
+        if (!entry || typeof entry !== 'object') return [];
+        const r = entry as Record<string, unknown>;
+        const id = typeof r.id === 'string' && r.id ? r.id : newRuleId();
+        const market = typeof r.market === 'string' && r.market ? r.market : null;
+        const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+        if (r.kind === 'cross' && isNumber(r.level) && r.level > 0 && r.level < 1) {
+            const direction = r.direction === 'up' || r.direction === 'down' ? r.direction : 'either';
+            return [{ id, market, kind: 'cross', level: r.level, direction }];
+        }
+        if (r.kind === 'move' && isNumber(r.change) && r.change > 0 && isNumber(r.minutes) && r.minutes > 0) {
+            return [{ id, market, kind: 'move', change: r.change, minutes: r.minutes }];
+        }
+        if (r.kind === 'rank' && isNumber(r.top) && r.top >= 1) {
+            return [{ id, market, kind: 'rank', top: Math.round(r.top) }];
+        }
+        return [];
+    });
+}
+
+// Shareable rule set; market-scoped rules only match within the same event
+export const serializeAlertRules = (slug: string, rules: AlertRule[]) =>
+    JSON.stringify({ event: slug, rules }, null, 2);
+
+const storageKey = (slug: string) => `polymarket-explorer:alerts:${slug}`;
+
+export function loadAlertRules(slug: string): AlertRule[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        return parseAlertRules(JSON.parse(window.localStorage.getItem(storageKey(slug)) || "[]"));
+    } catch {
+        return [];
+    }
+}
+
+export function saveAlertRules(slug: string, rules: AlertRule[]) {
+    try {
+        if (rules.length > 0) window.localStorage.setItem(storageKey(slug), JSON.stringify(rules));
+        else window.localStorage.removeItem(storageKey(slug));
+    } catch {
+        // Storage unavailable; the rules then last for the session
+    }
+}
@@ -0,0 +1,114 @@
+// Case-file annotations: time ranges marked on a chart with a tag, a note and a
+// severity. Kept per event in localStorage; each one lists the markets it was
+// drawn on, so it shows on those markets' charts only.
+
+import type { DataPoint, Poll } from "./schema";
+import { pollTime } from "./timeZone";
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+
+export const SEVERITY_COLORS: Record<Severity, string> = {
+    low: "#38bdf8",
+    medium: "#f59e0b",
+    high: "#ef4444",
+};
+
+export interface Annotation {
+    id: string;
+    markets: string[];
+    start: number; // unix seconds
+    end: number;
+    tag: string;
+    note: string;
+    severity: Severity;
+    created: number;
+}
+
+// Price over an annotated range; `from` is the last price at or before the start
+export interface RangeChange {
+    from: number;
+    to: number;
+    change: number;
+    low: number;
+    high: number;
+}
+
+// Polls this close to a range (either side) are listed with it in the report
+export const POLL_MARGIN = 48 * 3600;
+
+export const newAnnotationId = () => `note-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const annotationsFor = (annotations: Annotation[], marketIds: string[]) =>
+    annotations.filter(a => a.markets.some(id => marketIds.includes(id)));
+
+export function rangeChange(data: DataPoint[], start: number, end: number): RangeChange | null {
+    let from: number | null = null;
+    let to: number | null = null;
+    let low = Infinity;
+    let high = -Infinity;
+    for (const point of data) {
+        if (point.t > end) break;
+        if (point.t <= start) {
+            from = point.p;
+            continue;
+        }
+        if (from === null) from = point.p;
+        to = point.p;
+        low = Math.min(low, point.p);
+        high = Math.max(high, point.p);
+    }
+    if (from === null || to === null) return null;
+    return { from, to, change: to - from, low: Math.min(low, from), high: Math.max(high, from) };
+}
+
+export const nearbyPolls = (polls: Poll[], start: number, end: number, margin = POLL_MARGIN) =>
+    polls
+        .filter(poll => {
+            const t = pollTime(poll);
+            return t >= start - margin && t <= end + margin;
+        })
+        .sort((a, b) => pollTime(a) - pollTime(b));
+
+const isSeverity = (value: unknown): value is Severity => SEVERITIES.includes(value as Severity);
+
+function parseAnnotations(raw: unknown): Annotation[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((entry): Annotation[] => {
+        if (!entry || typeof entry !== 'object') return [];
+        const a = entry as Record<string, unknown>;
+        const markets = Array.isArray(a.markets) ? a.markets.filter((id): id is string => typeof id === 'string') : [];
+        if (typeof a.start !== 'number' || typeof a.end !== 'number' || a.end <= a.start || markets.length === 0) return [];
+        return [{
+            id: typeof a.id === 'string' ? a.id : newAnnotationId(),
+            markets,
+            start: a.start,
+            end: a.end,
+            tag: typeof a.tag === 'string' ? a.tag : "",
+            note: typeof a.note === 'string' ? a.note : "",
+            severity: isSeverity(a.severity) ? a.severity : 'medium',
+            created: typeof a.created === 'number' ? a.created : a.start,
+        }];
+    });
+}
+
+const storageKey = (slug: string) => `polymarket-explorer:annotations:${slug}`;
+
+export function loadAnnotations(slug: string): Annotation[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        return parseAnnotations(JSON.parse(window.localStorage.getItem(storageKey(slug)) || "[]"));
+    } catch {
+        return [];
+    }
+}
+
+export function saveAnnotations(slug: string, annotations: Annotation[]) {
+    try {
+        if (annotations.length > 0) window.localStorage.setItem(storageKey(slug), JSON.stringify(annotations));
+        else window.localStorage.removeItem(storageKey(slug));
+    } catch {
+        // Storage unavailable; the case file then lasts for the session
+    }
+}
@@ -0,0 +1,44 @@
+// Typed event calendar: dated milestones loaded from public/data/<slug>/calendar.json
+
+import { parseDataDate } from "./timeZone";
+
+export type CalendarCategory = 'voting' | 'debate' | 'poll' | 'results';
+
+export interface Milestone {
+    category: CalendarCategory;
+    label: string;
+    start: number; // unix seconds
+    end?: number;  // unix seconds, for ranged milestones (e.g. polls open -> close)
+}
+
+// Raw shape as stored on disk (ISO date strings)
+interface RawMilestone {
+    category: string;
+    label: string;
+    start: string;
+    end?: string;
+}
+
+export const CALENDAR_CATEGORIES: Record<CalendarCategory, { label: string; color: string }> = {
+    voting: { label: "Voting", color: "#ef4444" },
+    debate: { label: "Debates", color: "#8b5cf6" },
+    poll: { label: "Poll Releases", color: "#f59e0b" },
+    results: { label: "Results", color: "#10b981" },
+};
+
+const isCategory = (value: string): value is CalendarCategory => value in CALENDAR_CATEGORIES;
+
+// Dates without an offset are wall-clock time in the data zone (see timeZone.ts)
+const toSeconds = (iso: string) => parseDataDate(iso);
+
+export function parseCalendar(raw: { milestones?: RawMilestone[] }): Milestone[] {
+    return (raw.milestones || [])
+        .filter(m => isCategory(m.category) && !Number.isNaN(toSeconds(m.start)))
+        .map(m => ({
+            category: m.category as CalendarCategory,
+            label: m.label,
+            start: toSeconds(m.start),
+            end: m.end ? toSeconds(m.end) : undefined,
+        }))
+        .sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,7 @@
+// Series palette shared by every chart so a candidate keeps its color across panels
+export const COLORS = [
+    "#10b981", "#3b82f6", "#f59e0b", "#ef4444", "#8b5cf6",
+    "#ec4899", "#14b8a6", "#f97316", "#6366f1", "#84cc16"
+];
+
+export const seriesColor = (index: number) => COLORS[index % COLORS.length];
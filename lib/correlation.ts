@@ -0,0 +1,132 @@
+// Co-movement between candidates: pairwise correlation of price changes on a
+// regular time grid, and the lag at which one market's changes best predict another's.
+
+import { upperBound } from "./downsample";
+
+export interface LeadLag {
+    leader: string;   // market id whose moves come first
+    follower: string;
+    lag: number;      // seconds by which the leader precedes the follower (0 = simultaneous)
+    corr: number;     // correlation at that lag
+    corr0: number;    // same-time correlation, for comparison
+}
+
+export interface CorrelationResult {
+    ids: string[];
+    matrix: number[][];   // NaN where a pair has too little overlapping data
+    leadLag: LeadLag[];
+    step: number;         // grid spacing actually used, seconds
+    samples: number;      // grid points in the range
+}
+
+// Grids longer than this are coarsened so the lag scan stays fast
+const MAX_SAMPLES = 5000;
+// Fewer paired observations than this give no correlation
+const MIN_PAIRS = 10;
+
+// Price changes per grid step for every column, forward-filled from the merged timeline
+export function gridReturns(
+    t: ArrayLike<number>,
+    columns: ArrayLike<number>[],
+    from: number,
+    to: number,
+    step: number
+): { returns: Float64Array[]; step: number } {
+    const span = Math.max(0, to - from);
+    const effectiveStep = Math.max(step, Math.ceil(span / MAX_SAMPLES / 60) * 60);
+    const samples = Math.floor(span / effectiveStep) + 1;
+
+    // Index of the last merged row at or before each grid point
+    const rowAt = new Int32Array(samples);
+    for (let k = 0; k < samples; k++) rowAt[k] = upperBound(t, from + k * effectiveStep) - 1;
+
+    const returns = columns.map(column => {
+        const r = new Float64Array(Math.max(0, samples - 1)).fill(NaN);
+        for (let k = 1; k < samples; k++) {
+            const prev = rowAt[k - 1];
+            const cur = rowAt[k];
+            if (prev < 0 || cur < 0) continue;
+            r[k - 1] = column[cur] - column[prev];
+        }
+        return r;
+    });
+    return { returns, step: effectiveStep };
+}
+
+// Pearson correlation of a[i] with b[i + lag], skipping NaNs
+export function laggedCorrelation(a: Float64Array, b: Float64Array, lag: number): number {
+    let n = 0;
+    let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+    const start = Math.max(0, -lag);
+    const end = Math.min(a.length, b.length - lag);
+    for (let i = start; i < end; i++) {
+        const x = a[i];
+        const y = b[i + lag];
+        if (Number.isNaN(x) || Number.isNaN(y)) continue;
+        n++;
+        sumA += x;
+        sumB += y;
+        sumAA += x * x;
+        sumBB += y * y;
+        sumAB += x * y;
+    }
+    if (n < MIN_PAIRS) return NaN;
+    const cov = sumAB - (sumA * sumB) / n;
+    const varA = sumAA - (sumA * sumA) / n;
+    const varB = sumBB - (sumB * sumB) / n;
+    // Flat series (no trades in range) have no meaningful correlation
+    if (varA <= 1e-12 || varB <= 1e-12) return NaN;
+    return cov / Math.sqrt(varA * varB);
+}
+
+// The analysis one pair at a time: yields before each pair's lag scan, so the
+// caller can serve other requests in between, and returns the finished result
+export function* correlationSteps(
+    ids: string[],
+    t: ArrayLike<number>,
+    columns: ArrayLike<number>[],
+    from: number,
+    to: number,
+    step: number,
+    maxLagSeconds: number
+): Generator<void, CorrelationResult, void> {
+    const grid = gridReturns(t, columns, from, to, step);
+    const { returns } = grid;
+    const maxLag = Math.floor(maxLagSeconds / grid.step);
+
+    const matrix = ids.map(() => ids.map(() => NaN));
+    const leadLag: LeadLag[] = [];
+
+    for (let i = 0; i < ids.length; i++) {
+        matrix[i][i] = 1;
+        for (let j = i + 1; j < ids.length; j++) {
+            yield;
+            const corr0 = laggedCorrelation(returns[i], returns[j], 0);
+            matrix[i][j] = corr0;
+            matrix[j][i] = corr0;
+            if (Number.isNaN(corr0) && maxLag === 0) continue;
+
+            // Positive lag: i's change at k lines up with j's change at k + lag, so i leads
+            let bestLag = 0;
+            let best = corr0;
+            for (let lag = -maxLag; lag <= maxLag; lag++) {
+                if (lag === 0) continue;
+                const c = laggedCorrelation(returns[i], returns[j], lag);
+                if (!Number.isNaN(c) && (Number.isNaN(best) || Math.abs(c) > Math.abs(best))) {
+                    best = c;
+                    bestLag = lag;
+                }
+            }
+            if (Number.isNaN(best)) continue;
+            leadLag.push({
+                leader: bestLag >= 0 ? ids[i] : ids[j],
+                follower: bestLag >= 0 ? ids[j] : ids[i],
+                lag: Math.abs(bestLag) * grid.step,
+                corr: best,
+                corr0,
+            });
+        }
+    }
+
+    return { ids, matrix, leadLag, step: grid.step, samples: returns.length ? returns[0].length + 1 : 0 };
+}
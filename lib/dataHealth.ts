@@ -0,0 +1,102 @@
+// Coverage checks for the shipped histories: point counts, first/last timestamps,
+// gaps between consecutive points and staleness against the event's last refresh.
+// The same gaps are broken and shaded on the charts rather than drawn across.
+
+import type { DataPoint } from "./schema";
+
+export interface Gap {
+    start: number; // last point before the gap, unix seconds
+    end: number;   // first point after it
+}
+
+export type HealthStatus = 'ok' | 'gaps' | 'stale' | 'empty' | 'unreadable';
+
+export interface MarketHealth {
+    id: string;
+    name: string;
+    declared: number;       // points according to summary.json
+    points: number;         // points actually in history_<id>.json
+    first: number | null;
+    last: number | null;
+    largestGap: Gap | null;
+    gaps: number;           // gaps of at least GAP_THRESHOLD
+    staleness: number | null; // seconds between the last point and the event's updatedAt
+    status: HealthStatus;
+    error?: string;
+}
+
+// Histories are fetched at 1-minute fidelity, so hours without a point mean the
+// fetch missed them rather than a quiet market
+export const GAP_THRESHOLD = 6 * 3600;
+
+// A history ending this long before the event's last refresh is reported as stale
+export const STALE_AFTER = 24 * 3600;
+
+export function findGaps(data: DataPoint[], threshold = GAP_THRESHOLD): Gap[] {
+    const gaps: Gap[] = [];
+    for (let i = 1; i < data.length; i++) {
+        if (data[i].t - data[i - 1].t >= threshold) gaps.push({ start: data[i - 1].t, end: data[i].t });
+    }
+    return gaps;
+}
+
+// Union of several markets' gaps, for shading one band per outage on a shared chart
+export function mergeGaps(gaps: Gap[]): Gap[] {
+    const merged: Gap[] = [];
+    for (const gap of [...gaps].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && gap.start <= last.end) last.end = Math.max(last.end, gap.end);
+        else merged.push({ ...gap });
+    }
+    return merged;
+}
+
+export function marketHealth(
+    market: { id: string; name: string; declared: number },
+    data: DataPoint[],
+    updatedAt: number | null
+): MarketHealth {
+    let largestGap: Gap | null = null;
+    for (let i = 1; i < data.length; i++) {
+        if (!largestGap || data[i].t - data[i - 1].t > largestGap.end - largestGap.start) {
+            largestGap = { start: data[i - 1].t, end: data[i].t };
+        }
+    }
+    const first = data.length > 0 ? data[0].t : null;
+    const last = data.length > 0 ? data[data.length - 1].t : null;
+    const gaps = findGaps(data).length;
+    const staleness = last !== null && updatedAt !== null ? Math.max(0, updatedAt - last) : null;
+    const status: HealthStatus = data.length === 0
+        ? 'empty'
+        : staleness !== null && staleness >= STALE_AFTER ? 'stale' : gaps > 0 ? 'gaps' : 'ok';
+    return { ...market, points: data.length, first, last, largestGap, gaps, staleness, status };
+}
+
+// Chart rows with each series blanked strictly inside its own gaps, so the line
+// breaks there instead of being interpolated across. A row is added at the middle of
+// every gap, carrying the other series' previous values, so the break shows even
+// when no other row falls inside it.
+export function breakAtGaps<T extends { t: number }>(rows: T[], gaps: { key: string; gaps: Gap[] }[]): T[] {
+    const mids = gaps.flatMap(s => s.gaps.map(g => (g.start + g.end) / 2)).sort((a, b) => a - b);
+    if (mids.length === 0 || rows.length === 0) return rows;
+
+    const out: T[] = [];
+    let m = 0;
+    for (const row of rows) {
+        while (m < mids.length && mids[m] < row.t) {
+            const previous = out[out.length - 1];
+            if (previous && previous.t !== mids[m]) out.push({ ...previous, t: mids[m] });
+            m++;
+        }
+        out.push({ ...row });
+    }
+
+    for (const { key, gaps: seriesGaps } of gaps) {
+        let g = 0;
+        for (const row of out) {
+            while (g < seriesGaps.length && seriesGaps[g].end <= row.t) g++;
+            if (g < seriesGaps.length && seriesGaps[g].start < row.t) delete (row as Record<string, unknown>)[key];
+        }
+    }
+    return out;
+}
@@ -0,0 +1,104 @@
+// Where the dashboard's data comes from. The static source reads the snapshot files
+// under public/data/<slug>; the HTTP source speaks the Gamma /events and CLOB
+// /prices-history APIs (or scripts/mock_api.mjs replaying the snapshot) and can be
+// polled for points newer than the ones already loaded.
+
+import { outcomePrices, parseEvent, parseHistory, parsePolls, type DataPoint, type EventFile, type Market, type Poll } from "./schema";
+
+export type DataSourceKind = 'static' | 'live';
+
+export interface DataSource {
+    kind: DataSourceKind;
+    event(): Promise<EventFile>;
+    history(market: Market): Promise<DataPoint[]>;
+    // Points strictly after `since` (unix seconds); static snapshots never grow
+    historySince(market: Market, since: number): Promise<DataPoint[]>;
+    polls(): Promise<Poll[]>;
+}
+
+export const DEFAULT_SOURCE: DataSourceKind = process.env.NEXT_PUBLIC_DATA_SOURCE === 'live' ? 'live' : 'static';
+
+const GAMMA_API_URL = process.env.NEXT_PUBLIC_GAMMA_API_URL || "https://gamma-api.polymarket.com";
+const CLOB_API_URL = process.env.NEXT_PUBLIC_CLOB_API_URL || "https://clob.polymarket.com";
+
+// How often live charts ask for new points
+export const LIVE_POLL_INTERVAL = 30_000;
+
+// Determine base path: empty for local dev, /polymarket_explorer for GitHub Pages
+const getBasePath = () => {
+    if (typeof window === 'undefined') return '';
+    return window.location.hostname.includes('github.io') ? '/polymarket_explorer' : '';
+};
+
+// Each event's files live under public/data/<slug>
+export const getDataPath = (slug: string) => `${getBasePath()}/data/${slug}`;
+
+const fetchJson = async (url: string) => {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`GET ${url} failed: ${res.status}`);
+    return res.json();
+};
+
+export function staticSource(slug: string): DataSource {
+    const dataPath = getDataPath(slug);
+    return {
+        kind: 'static',
+        event: async () => parseEvent(await fetchJson(`${dataPath}/event.json`)),
+        history: async (market) =>
+            parseHistory(await fetchJson(`${dataPath}/history_${market.id}.json`), `history_${market.id}.json`),
+        historySince: async () => [],
+        // polls.json is optional
+        polls: async () => {
+            const res = await fetch(`${dataPath}/polls.json`);
+            return res.ok ? parsePolls(await res.json()) : [];
+        },
+    };
+}
+
+export function httpSource(slug: string, gammaUrl = GAMMA_API_URL, clobUrl = CLOB_API_URL): DataSource {
+    const prices = async (market: Market, params: Record<string, string>) => {
+        if (!market.token_id) throw new Error(`Market ${market.id} has no CLOB token id`);
+        const query = new URLSearchParams({ market: market.token_id, fidelity: "1", ...params });
+        return parseHistory(await fetchJson(`${clobUrl}/prices-history?${query}`), `prices-history for ${market.id}`);
+    };
+
+    return {
+        kind: 'live',
+        event: async () => {
+            const events = await fetchJson(`${gammaUrl}/events?${new URLSearchParams({ slug })}`);
+            const event = Array.isArray(events) ? events[0] : events;
+            if (!event) throw new Error(`Event ${slug} not found`);
+            return parseEvent(event, `events?slug=${slug}`);
+        },
+        history: (market) => prices(market, { interval: "max" }),
+        historySince: async (market, since) =>
+            (await prices(market, { startTs: String(Math.floor(since) + 1) })).filter(d => d.t > since),
+        // Poll releases are curated by hand, so they only exist as files
+        polls: staticSource(slug).polls,
+    };
+}
+
+export const createDataSource = (kind: DataSourceKind, slug: string) =>
+    kind === 'live' ? httpSource(slug) : staticSource(slug);
+
+// New points go after the last loaded one; anything older is a duplicate
+export function appendPoints(data: DataPoint[], points: DataPoint[]): DataPoint[] {
+    const last = data.length ? data[data.length - 1].t : -Infinity;
+    const fresh = points.filter(d => d.t > last);
+    return fresh.length ? [...data, ...fresh] : data;
+}
+
+export interface MarketQuote {
+    currentPrice?: number;
+    volume?: string;
+}
+
+// Latest YES price and volume per market id, from a Gamma event
+export function marketQuotes(event: EventFile): Record<string, MarketQuote> {
+    const quotes: Record<string, MarketQuote> = {};
+    for (const market of event.markets) {
+        const prices = outcomePrices(market);
+        quotes[market.id] = { currentPrice: prices.length > 0 ? prices[0] : undefined, volume: market.volume };
+    }
+    return quotes;
+}
@@ -0,0 +1,203 @@
+// Pluggable downsampling for chart display. Every method keeps the first and last
+// visible point and the minimum and maximum of every series inside the visible
+// range, so short spikes are never dropped at coarse resolutions.
+
+export type DownsampleMethod = 'stride' | 'lttb' | 'minmax';
+
+export const DOWNSAMPLE_METHODS: Record<DownsampleMethod, string> = {
+    stride: "Every Nth point",
+    lttb: "LTTB (shape)",
+    minmax: "Min/Max per bucket",
+};
+
+type Range = number | string | null;
+
+// Picks which of the given candidate positions (indices into `values`) to keep
+type Selector = (t: number[], values: number[], target: number) => number[];
+
+const strideSelect: Selector = (t, values, target) => {
+    const stride = Math.ceil(values.length / target);
+    const picked: number[] = [];
+    for (let i = 0; i < values.length; i += stride) picked.push(i);
+    return picked;
+};
+
+const minMaxSelect: Selector = (t, values, target) => {
+    const buckets = Math.max(1, Math.floor(target / 2));
+    const size = values.length / buckets;
+    const picked: number[] = [];
+    for (let b = 0; b < buckets; b++) {
+        const start = Math.floor(b * size);
+        const end = Math.min(values.length, Math.floor((b + 1) * size));
+        if (start >= end) continue;
+        let min = start;
+        let max = start;
+        for (let i = start + 1; i < end; i++) {
+            if (values[i] < values[min]) min = i;
+            if (values[i] > values[max]) max = i;
+        }
+        // Keep chronological order inside the bucket
+        if (min <= max) picked.push(min, max);
+        else picked.push(max, min);
+    }
+    return picked;
+};
+
+// Largest-Triangle-Three-Buckets (Steinarsson, 2013)
+const lttbSelect: Selector = (t, values, target) => {
+    const n = values.length;
+    if (target >= n || target < 3) return values.map((_, i) => i);
+
+    const picked = [0];
+    const bucketSize = (n - 2) / (target - 2);
+    let a = 0;
+
+    for (let b = 0; b < target - 2; b++) {
+        const start = Math.floor(b * bucketSize) + 1;
+        const end = Math.min(Math.floor((b + 1) * bucketSize) + 1, n - 1);
+
+        // Average of the next bucket is the third triangle vertex
+        const nextStart = end;
+        const nextEnd = Math.min(Math.floor((b + 2) * bucketSize) + 1, n);
+        let avgT = 0;
+        let avgV = 0;
+        for (let i = nextStart; i < nextEnd; i++) {
+            avgT += t[i];
+            avgV += values[i];
+        }
+        const count = Math.max(1, nextEnd - nextStart);
+        avgT /= count;
+        avgV /= count;
+
+        let best = start;
+        let bestArea = -1;
+        for (let i = start; i < end; i++) {
+            const area = Math.abs(
+                (t[a] - avgT) * (values[i] - values[a]) - (t[a] - t[i]) * (avgV - values[a])
+            );
+            if (area > bestArea) {
+                bestArea = area;
+                best = i;
+            }
+        }
+        picked.push(best);
+        a = best;
+    }
+
+    picked.push(n - 1);
+    return picked;
+};
+
+const SELECTORS: Record<DownsampleMethod, Selector> = {
+    stride: strideSelect,
+    lttb: lttbSelect,
+    minmax: minMaxSelect,
+};
+
+// First index with t[i] >= value (binary search over sorted timestamps)
+export function lowerBound(t: ArrayLike<number>, value: number): number {
+    let lo = 0;
+    let hi = t.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (t[mid] < value) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+// First index with t[i] > value
+export function upperBound(t: ArrayLike<number>, value: number): number {
+    let lo = 0;
+    let hi = t.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (t[mid] <= value) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+// [start, end) indices of the timestamps inside [left, right]; non-numeric bounds mean the data extent
+export function rangeIndices(t: ArrayLike<number>, left: Range, right: Range): [number, number] {
+    const start = typeof left === 'number' ? lowerBound(t, left) : 0;
+    const end = typeof right === 'number' ? upperBound(t, right) : t.length;
+    return [start, Math.max(start, end)];
+}
+
+// Index-level downsampling over columnar data, shared by the row helper below and
+// the overlay worker. `columns` hold one value per timestamp (NaN = no value yet).
+export function selectIndices(
+    t: ArrayLike<number>,
+    columns: ArrayLike<number>[],
+    start: number,
+    end: number,
+    targetPoints: number,
+    method: DownsampleMethod = 'stride'
+): number[] {
+    const sliceLength = end - start;
+    if (sliceLength <= 0) return [];
+
+    // IF visible points < targetPoints, show all of them (auto-scaling resolution)
+    if (sliceLength <= targetPoints) {
+        return Array.from({ length: sliceLength }, (_, i) => start + i);
+    }
+
+    const keep = new Set<number>([start, end - 1]);
+    // Stride picks the same rows for every series, so only the shape-aware methods share the budget
+    const perKeyTarget = method === 'stride'
+        ? targetPoints
+        : Math.max(3, Math.ceil(targetPoints / Math.max(1, columns.length)));
+    const select = SELECTORS[method];
+
+    for (const column of columns) {
+        const rowIdx: number[] = [];
+        const times: number[] = [];
+        const values: number[] = [];
+        for (let i = start; i < end; i++) {
+            const v = column[i];
+            if (!Number.isFinite(v)) continue;
+            rowIdx.push(i);
+            times.push(t[i]);
+            values.push(v);
+        }
+        if (values.length === 0) continue;
+
+        for (const pos of select(times, values, perKeyTarget)) keep.add(rowIdx[pos]);
+
+        // Extremes of the visible range are always kept
+        let min = 0;
+        let max = 0;
+        for (let i = 1; i < values.length; i++) {
+            if (values[i] < values[min]) min = i;
+            if (values[i] > values[max]) max = i;
+        }
+        keep.add(rowIdx[min]);
+        keep.add(rowIdx[max]);
+    }
+
+    return Array.from(keep).sort((a, b) => a - b);
+}
+
+// Downsample the rows inside [left, right] to roughly `targetPoints`.
+// `keys` are the value columns to preserve: "p" for a single market, or one
+// column per market id for merged overlay rows (missing values are skipped).
+export function downsample<T extends { t: number }>(
+    data: T[],
+    left: Range,
+    right: Range,
+    targetPoints: number,
+    method: DownsampleMethod = 'stride',
+    keys: string[] = ["p"]
+): T[] {
+    if (!data || data.length === 0) return [];
+
+    const t = data.map(d => d.t);
+    const [start, end] = rangeIndices(t, left, right);
+    const columns = keys.map(key => data.map(d => {
+        const v = (d as Record<string, unknown>)[key];
+        return typeof v === 'number' ? v : NaN;
+    }));
+
+    return selectIndices(t, columns, start, end, targetPoints, method).map(i => data[i]);
+}
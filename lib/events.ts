@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseCalendar, type Milestone } from './calendar';
+import { marketHealth, type MarketHealth } from './dataHealth';
+import { computeTrend, type MarketTrend } from './trends';
+import {
+    candidateName,
+    DataValidationError,
+    parseApiDate,
+    parseEvent,
+    parseHistory,
+    parseSummary,
+    validateEvent,
+    validateHistory,
+    validatePolls,
+    validateSummary,
+    type DataPoint,
+    type EventFile,
+    type FileReport,
+    type Market,
+    type ValidationIssue,
+} from './schema';
+
+// Server-side helpers for the per-event data directories: public/data/<slug>/
+
+const DATA_ROOT = path.join(process.cwd(), 'public/data');
+
+export interface EventListing {
+    slug: string;
+    title: string;
+    volume: number;
+    closed: boolean;
+    negRisk: boolean; // markets are mutually exclusive outcomes of one question
+    endDate?: string;
+}
+
+const readJson = async (slug: string, file: string) => {
+    const contents = await fs.readFile(path.join(DATA_ROOT, slug, file), 'utf8');
+    return JSON.parse(contents);
+};
+
+// Every directory under public/data holding an event.json is an event
+export async function listEventSlugs(): Promise<string[]> {
+    const entries = await fs.readdir(DATA_ROOT, { withFileTypes: true });
+    const slugs: string[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        try {
+            await fs.access(path.join(DATA_ROOT, entry.name, 'event.json'));
+            slugs.push(entry.name);
+        } catch {
+            // Not an event directory
+        }
+    }
+    return slugs.sort();
+}
+
+export async function readEvent(slug: string): Promise<EventFile> {
+    return parseEvent(await readJson(slug, 'event.json'), `${slug}/event.json`);
+}
+
+export async function readEventListing(slug: string): Promise<EventListing> {
+    const event = await readEvent(slug);
+    return {
+        slug,
+        title: event.title || slug,
+        volume: Number(event.volume) || 0,
+        closed: Boolean(event.closed),
+        negRisk: Boolean(event.negRisk),
+        endDate: event.endDate,
+    };
+}
+
+export async function listEvents(): Promise<EventListing[]> {
+    const slugs = await listEventSlugs();
+    const events = await Promise.all(slugs.map(slug => readEventListing(slug)));
+    return events.sort((a, b) => b.volume - a.volume);
+}
+
+export async function readSummary(slug: string): Promise<Market[]> {
+    return parseSummary(await readJson(slug, 'summary.json'), `${slug}/summary.json`);
+}
+
+// Sidebar sparklines and recent changes, keyed by market id
+export async function readTrends(slug: string, summary: Market[]): Promise<Record<string, MarketTrend>> {
+    const trends: Record<string, MarketTrend> = {};
+    for (const market of summary.filter(m => m.points > 0)) {
+        const file = `history_${market.id}.json`;
+        const trend = computeTrend(parseHistory(await readJson(slug, file), `${slug}/${file}`));
+        if (trend) trends[market.id] = trend;
+    }
+    return trends;
+}
+
+// Checks every data file of an event; throws one report covering all of them
+export async function validateEventData(slug: string): Promise<void> {
+    const files = await fs.readdir(path.join(DATA_ROOT, slug));
+    const reports: FileReport[] = [];
+
+    const check = async (file: string, validate: (raw: unknown) => ValidationIssue[]) => {
+        let issues: ValidationIssue[];
+        try {
+            issues = validate(await readJson(slug, file));
+        } catch (err) {
+            issues = [{ path: '', message: `unreadable: ${(err as Error).message}` }];
+        }
+        if (issues.length > 0) reports.push({ file: `public/data/${slug}/${file}`, issues });
+    };
+
+    await check('event.json', validateEvent);
+    await check('summary.json', validateSummary);
+    if (files.includes('polls.json')) await check('polls.json', validatePolls);
+    for (const file of files.filter(f => /^history_.+\.json$/.test(f))) {
+        await check(file, validateHistory);
+    }
+
+    if (reports.length > 0) throw new DataValidationError(reports);
+}
+
+// calendar.json is optional and hand-maintained per event
+export async function readCalendar(slug: string): Promise<Milestone[]> {
+    try {
+        return parseCalendar(await readJson(slug, 'calendar.json'));
+    } catch {
+        return [];
+    }
+}
+
+export interface DataHealth {
+    updatedAt: number | null; // event.json's updatedAt, unix seconds
+    markets: MarketHealth[];
+}
+
+// Coverage of every market in summary.json, including the ones the dashboard hides
+export async function readDataHealth(slug: string, event: EventFile, summary: Market[]): Promise<DataHealth> {
+    const updatedAt = parseApiDate(event.updatedAt);
+    const names = new Map(event.markets.map(m => [m.id, candidateName(m)]));
+    const markets: MarketHealth[] = [];
+    for (const market of summary) {
+        const file = `history_${market.id}.json`;
+        const info = { id: market.id, name: names.get(market.id) ?? market.question, declared: market.points };
+        let data: DataPoint[];
+        try {
+            data = parseHistory(await readJson(slug, file), `${slug}/${file}`);
+        } catch (err) {
+            markets.push({ ...marketHealth(info, [], updatedAt), status: 'unreadable', error: (err as Error).message });
+            continue;
+        }
+        markets.push(marketHealth(info, data, updatedAt));
+    }
+    return { updatedAt, markets };
+}
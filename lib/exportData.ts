@@ -0,0 +1,111 @@
+// Evidence export helpers: tabular data as CSV/JSON and the rendered chart as SVG/PNG.
+
+export interface ExportColumn {
+    key: string;
+    header: string;
+}
+
+export type ExportRow = Record<string, string | number | null | undefined>;
+
+const csvCell = (value: string | number | null | undefined) => {
+    if (value === null || value === undefined) return "";
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCSV(rows: ExportRow[], columns: ExportColumn[]): string {
+    const header = columns.map(c => csvCell(c.header)).join(",");
+    const lines = rows.map(row => columns.map(c => csvCell(row[c.key])).join(","));
+    return [header, ...lines].join("\n");
+}
+
+// Rows keyed by column header rather than internal key (market ids -> names)
+export function toJSON(rows: ExportRow[], columns: ExportColumn[]): string {
+    const named = rows.map(row => {
+        const out: Record<string, string | number | null> = {};
+        for (const c of columns) out[c.header] = row[c.key] ?? null;
+        return out;
+    });
+    return JSON.stringify(named, null, 2);
+}
+
+export function downloadBlob(content: BlobPart, filename: string, type: string) {
+    const blob = content instanceof Blob ? content : new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+const CAPTION_HEIGHT = 40;
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Standalone copy of a rendered Recharts SVG with a dark background and a
+// caption band on top (market question and time range).
+export function serializeChartSvg(svg: SVGSVGElement, caption: string[]): { markup: string; width: number; height: number } {
+    const { width, height } = svg.getBoundingClientRect();
+    const totalHeight = height + CAPTION_HEIGHT;
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+
+    const root = document.createElementNS(SVG_NS, "svg");
+    root.setAttribute("xmlns", SVG_NS);
+    root.setAttribute("width", String(width));
+    root.setAttribute("height", String(totalHeight));
+    root.setAttribute("viewBox", `0 0 ${width} ${totalHeight}`);
+    root.setAttribute("font-family", "Arial, Helvetica, sans-serif");
+
+    const background = document.createElementNS(SVG_NS, "rect");
+    background.setAttribute("width", "100%");
+    background.setAttribute("height", "100%");
+    background.setAttribute("fill", "#0f172a");
+    root.appendChild(background);
+
+    caption.forEach((line, idx) => {
+        const text = document.createElementNS(SVG_NS, "text");
+        text.setAttribute("x", "12");
+        text.setAttribute("y", String(16 + idx * 16));
+        text.setAttribute("fill", idx === 0 ? "#f1f5f9" : "#94a3b8");
+        text.setAttribute("font-size", idx === 0 ? "14" : "12");
+        text.textContent = line;
+        root.appendChild(text);
+    });
+
+    clone.setAttribute("x", "0");
+    clone.setAttribute("y", String(CAPTION_HEIGHT));
+    clone.setAttribute("width", String(width));
+    clone.setAttribute("height", String(height));
+    root.appendChild(clone);
+
+    return { markup: new XMLSerializer().serializeToString(root), width, height: totalHeight };
+}
+
+export function rasterizeSvg(markup: string, width: number, height: number, scale = 2): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }));
+        image.onload = () => {
+            const canvas = document.createElement("canvas");
+            canvas.width = width * scale;
+            canvas.height = height * scale;
+            const ctx = canvas.getContext("2d");
+            if (!ctx) {
+                URL.revokeObjectURL(url);
+                reject(new Error("Canvas 2D context unavailable"));
+                return;
+            }
+            ctx.scale(scale, scale);
+            ctx.drawImage(image, 0, 0, width, height);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("PNG encoding failed")), "image/png");
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Failed to load chart SVG"));
+        };
+        image.src = url;
+    });
+}
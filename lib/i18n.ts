@@ -0,0 +1,835 @@
+// UI strings and number/date conventions per locale. English is the reference
+// dictionary: every other locale must provide the same keys (checked by the type).
+
+import { enUS, pt, type Locale as DateFnsLocale } from "date-fns/locale";
+import { CALENDAR_CATEGORIES, type CalendarCategory } from "./calendar";
+import { DOWNSAMPLE_METHODS, type DownsampleMethod } from "./downsample";
+import { TIME_ZONES, type TimeZoneSetting } from "./timeZone";
+import type { SortOrder } from "./urlState";
+
+export type Locale = 'en' | 'pt-PT';
+
+export const LOCALES: Record<Locale, string> = {
+    en: "English",
+    'pt-PT': "Português",
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && value in LOCALES;
+
+// Named date formats, so each locale can order day and month its own way
+export type DateStyle = 'time' | 'day' | 'axisDay' | 'axisDayTime' | 'dateTime' | 'date' | 'dateTimeYear' | 'stamp';
+
+export const DATE_FORMATS: Record<Locale, Record<DateStyle, string>> = {
+    en: {
+        time: "HH:mm",
+        day: "MMM d",
+        axisDay: "d MMM",
+        axisDayTime: "d MMM HH:mm",
+        dateTime: "MMM d, HH:mm",
+        date: "MMM d, yyyy",
+        dateTimeYear: "MMM d yyyy, HH:mm",
+        stamp: "yyyy-MM-dd HH:mm",
+    },
+    'pt-PT': {
+        time: "HH:mm",
+        day: "d MMM",
+        axisDay: "d MMM",
+        axisDayTime: "d MMM HH:mm",
+        dateTime: "d MMM, HH:mm",
+        date: "d MMM yyyy",
+        dateTimeYear: "d MMM yyyy, HH:mm",
+        stamp: "yyyy-MM-dd HH:mm",
+    },
+};
+
+export const DATE_LOCALES: Record<Locale, DateFnsLocale> = {
+    en: enUS,
+    'pt-PT': pt,
+};
+
+const calendarLabels = Object.fromEntries(
+    Object.entries(CALENDAR_CATEGORIES).map(([category, { label }]) => [category, label])
+) as Record<CalendarCategory, string>;
+
+const en = {
+    loading: "Loading...",
+    loadingChart: "Loading chart...",
+    noData: "No data available",
+    merging: (count: number) => `Merging ${count} histories…`,
+    loadingAll: "Loading all market data...",
+    points: (value: string) => `${value} pts`,
+    units: {
+        minutes: (n: string) => `${n}m`,
+        hours: (n: string) => `${n}h`,
+        days: (n: string) => `${n}d`,
+    },
+
+    sidebar: {
+        allEvents: "← All events",
+        title: "Market Scanner",
+        refreshed: (date: string) => `Refreshed ${date}`,
+        dataHealth: "Data health →",
+        language: "Language",
+        dataSource: "Data Source",
+        live: "Live API",
+        snapshot: "Snapshot",
+        timeZone: "Time Zone",
+        minVolume: "Minimum Volume",
+        showAll: "Show All",
+        sortOrder: "Sort Order",
+        showPolls: "Show Poll Indicators",
+        resolutionFull: "Resolution: Full Detail (1m)",
+        resolutionStep: (minutes: number) => `Resolution: ~1 pt / ${minutes} min`,
+        resolutionMin: "Full",
+        resolutionMax: "3h",
+        downsampling: "Downsampling",
+        viewMode: "View Mode",
+        individual: "Individual",
+        overlay: "Overlay",
+        grid: "Grid",
+        gridHint: "One small chart per market, each on its own scale",
+        bookSum: "Book Sum",
+        bookSumHint: "Sum of YES prices across all markets",
+        chartStyle: "Chart Style",
+        line: "Line",
+        candles: "Candles",
+        search: "Search markets…",
+        showing: (shown: number, total: number) =>
+            shown === total ? `Showing ${shown} markets` : `Showing ${shown} of ${total} markets`,
+        pinned: (count: number) => ` · ${count} pinned`,
+        emptyHidden: (count: number) => ` · ${count} without history`,
+        emptyHint: "Markets with an empty history file are left out; see the data-health page",
+        compare: (count: number) => `Compare ${count}`,
+        clear: "Clear",
+        change24h: "24h change, pts",
+        change7d: "7d change, pts",
+        volume: (value: string) => `Vol: ${value}`,
+        unpin: "Remove from watchlist",
+        pin: "Pin to watchlist",
+        includeInOverlay: "Include in overlay comparison",
+        sparkline: "Price over the last 7 days",
+    },
+    sorts: {
+        price: "Current Price (High to Low)",
+        volume: "Volume (High to Low)",
+        name: "Name (A-Z)",
+        move24h: "Biggest 24h Move",
+        volatility: "Most Volatile (7d)",
+    } satisfies Record<SortOrder, string>,
+    downsampleMethods: DOWNSAMPLE_METHODS as Record<DownsampleMethod, string>,
+    calendarCategories: calendarLabels,
+    timeZones: TIME_ZONES as Record<TimeZoneSetting, string>,
+
+    views: {
+        bookSumTitle: "Book Sum Monitor",
+        bookSumIntro: "Mutually exclusive outcomes should sum to 100%. Sudden departures often coincide with informed flow into one candidate. Markets count as 0 until their first price.",
+        gridTitle: "Small Multiples",
+        gridIntro: "Every listed market on its own scale. Zoom and hover are shared, so a move in one market lines up with the others at the same instant.",
+        overlayTitle: "All Candidates Overlay",
+        comparingSelected: (count: number) => `Comparing ${count} selected candidates.`,
+        comparingTop: (count: number) => `Comparing top ${count} candidates. Tick markets in the sidebar to choose your own set.`,
+        marketId: "Market ID:",
+        totalVolume: "Total Volume",
+        loadingMarket: "Loading market data...",
+        noChartData: "No chart data available",
+        notesTitle: "Investigation Notes",
+        noteJumps: "Look for sharp vertical moves before major poll releases. Detected jumps are shaded red.",
+        noteAccumulation: "Check for sustained accumulation (steady rise).",
+        notePointsBefore: "This chart has ",
+        notePointsAfter: " minute-level data points.",
+        noteZoom: "Switch on Annotate above the chart and drag across a period to add it to the case file.",
+        keyDates: "Key Dates",
+        noMilestones: "No calendar milestones to show.",
+        noMarkets: "No markets with enough volume. Lower threshold.",
+        selectMarket: "Select a market to investigate",
+    },
+
+    zoom: {
+        last: (span: string) => `Last ${span} of data`,
+        vote: (date: string) => `Vote ${date}`,
+        undo: "Undo zoom (Ctrl+Z)",
+        redo: "Redo zoom (Ctrl+Shift+Z)",
+        reset: "Reset Zoom",
+        hint: "Drag to zoom · Shift-drag to pan",
+        hintDetail: "Drag to zoom · Shift-drag to pan · Wheel to zoom at the cursor · Click the chart, then ←/→ to pan, +/− to zoom, 0 to reset",
+    },
+    chart: {
+        showing: (count: string, minutes: number) => `Showing ${count} pts (~1pt/${minutes}m)`,
+        showingOf: (count: string, total: string, minutes: number) => `Showing ${count} of ${total} pts (~1pt/${minutes}m)`,
+        candles: (count: string, minutes: number) => `${count} candles (1 / ${minutes}m)`,
+        open: "Open",
+        high: "High",
+        low: "Low",
+        close: "Close",
+        range: (value: string) => `Range: ${value}`,
+        inBucket: (count: string) => `${count} points in bucket`,
+        hover: "Hover over the chart to see details.",
+        latest: "Latest",
+        noTrades: "No trade data at this timestamp.",
+        noTradesYet: "No trades yet at this point.",
+        gap: "no data",
+        gaps: (count: number) => ` · ${count} ${count === 1 ? "gap" : "gaps"} in the data`,
+    },
+    overlay: {
+        allTitle: "All Candidates Comparison",
+        sharesTitle: "Implied Win Shares",
+        normalize: "Normalize to 100%",
+        normalizeHint: "Divide each price by the sum of every market in the event at that timestamp (implied win share)",
+        replay: "▶ Replay",
+        exitReplay: "Exit Replay",
+        replayHint: "Replay how the race evolved through the zoomed range",
+        restart: "↺ Restart",
+        pause: "❚❚ Pause",
+        play: "▶ Play",
+        perSecond: (span: string) => `${span}/s`,
+    },
+    book: {
+        title: "Sum of YES Prices",
+        series: "Book sum",
+        info: (markets: number, shown: string, total: string) => `${markets} markets · ${shown} of ${total} pts`,
+        flagBeyond: "Flag beyond ±",
+        departures: "Book Departures",
+        departuresIntro: (band: string) =>
+            `Periods where the sum left 100% ± ${band}. Red: overround (YES side overpriced), blue: underround. Click to zoom.`,
+        inside: "The book stayed inside the band.",
+        start: "Start",
+        duration: "Duration",
+        peak: "Peak",
+        peakAt: "Peak at",
+    },
+    grid: {
+        title: "Small Multiples",
+        info: (markets: number, shown: string, total: string) => `${markets} markets · ${shown} of ${total} pts each`,
+        open: (name: string) => `Open ${name}`,
+    },
+
+    volatility: {
+        title: "Volatility & Returns",
+        intro: (points: string) => `Statistics for the zoomed range · ${points} points`,
+        window: "Volatility window",
+        realized: "Realized vol",
+        tooShort: (window: string) => `Not enough history for a ${window} window.`,
+        distribution: "Return distribution",
+        distributionNote: "1-minute returns, prices carried forward between trades and data gaps skipped; ±4σ around the mean, square-root scale; outliers land in the edge bins.",
+        sigma: "σ per minute",
+        skew: "Skew",
+        kurtosis: "Excess kurtosis",
+        kurtosisHint: "0 for a normal distribution; higher means fatter tails",
+        tail: "Beyond 3σ",
+        tailHint: (share: string) => `A normal distribution puts ${share} there`,
+        returns: "Returns",
+        inBin: (count: string) => `${count} returns`,
+        flat: "The price did not move in this range.",
+        extremes: "Extremes",
+        drawdown: "Max drawdown",
+        noDecline: "No decline in this range.",
+        largestMove: "Largest single move",
+        moveIn: (from: string, to: string, minutes: string) => `${from} → ${to} in ${minutes} min`,
+        noMoves: "No moves in this range.",
+    },
+    jumps: {
+        title: "Flagged Price Jumps",
+        windows: (count: number) => `${count} windows`,
+        none: "No abnormal moves detected in this history.",
+        window: "Window",
+        move: "Move",
+        before: "Before",
+        score: "Score",
+    },
+    exportMenu: {
+        button: "Export",
+        display: "As displayed",
+        raw: "Raw points",
+        csv: "Data as CSV",
+        json: "Data as JSON",
+        svg: "Chart as SVG",
+        png: "Chart as PNG",
+    },
+    pollReactions: {
+        title: "Poll Release Reactions",
+        intro: "Price change (points) per window, in hours relative to publication.",
+        windows: "Windows (h)",
+        highlight: "Highlight ≥",
+        none: "No poll releases fall inside the loaded price histories.",
+        candidate: "Candidate",
+        atRelease: "At release",
+        movedBefore: "Moved before publication",
+        average: "Average reaction (all releases aligned at t=0)",
+    },
+    correlation: {
+        title: "Co-movement",
+        intro: "Correlation of price changes in the zoomed range",
+        samples: (count: string, step: string) => ` · ${count} samples every ${step}`,
+        updating: " · updating…",
+        grid: "Grid",
+        maxLag: "Max lag",
+        computing: "Computing…",
+        leadLag: "Lead-lag (strongest pairs)",
+        noPairs: "Not enough overlapping moves in this range.",
+        pair: "Leader → follower",
+        lead: "Lead",
+        corrAtLead: "ρ at lead",
+        corrSame: "ρ same time",
+        sameTime: "same time",
+    },
+    marketDetails: {
+        title: "Market Details",
+        resolutions: {
+            yes: "Resolved YES",
+            no: "Resolved NO",
+            pending: "Closed · awaiting resolution",
+            open: "Open",
+        },
+        outcomePrices: "Outcome prices",
+        yesNo: (yes: string, no: string) => `YES ${yes} / NO ${no}`,
+        cents: (value: string) => `${value}¢`,
+        lastTrade: "Last trade",
+        bestAsk: "Best ask",
+        spread: "Spread",
+        change1m: "1-month change",
+        volume1w: "Volume 1w",
+        volume1m: "Volume 1m",
+        volume1y: "Volume 1y",
+        ends: "Ends",
+        closed: "Closed",
+        umaStatus: "UMA status",
+        showRules: "Show resolution rules",
+        hideRules: "Hide resolution rules",
+    },
+    eventHeader: {
+        open: "Open",
+        closed: (date: string) => `Closed ${date}`,
+        volume: "Volume",
+        openInterest: "Open interest",
+        resolutionSource: "Resolution source",
+        perRules: "per rules",
+        showRules: "Show rules",
+        hideRules: "Hide rules",
+    },
+
+    alerts: {
+        title: "Alerts",
+        hits: (count: number) => `${count} hits`,
+        import: "Import",
+        export: "Export",
+        imported: (count: number) => `Imported ${count} rules.`,
+        importFailed: (reason: string) => `Could not import rules: ${reason}`,
+        rules: "Rules",
+        noRules: "No rules yet.",
+        remove: "Remove rule",
+        allMarkets: "All markets",
+        kinds: {
+            cross: "Price crosses",
+            move: "Price moves",
+            rank: "Rank changes",
+        },
+        directions: {
+            up: "upward",
+            down: "downward",
+            either: "either way",
+        },
+        level: "Level, %",
+        change: "Points",
+        minutes: "Within, min",
+        top: "Among top",
+        add: "Add rule",
+        invalid: {
+            cross: "Enter a level between 0 and 100%.",
+            move: "Enter a change above 0 points and a window of at least 1 minute.",
+            rank: "Enter a top of at least 1.",
+        },
+        cross: (level: string, direction: string) => `crosses ${level} ${direction}`,
+        move: (change: string, minutes: number) => `moves ${change} within ${minutes} min`,
+        rank: (top: number) => `rank changes among the top ${top}`,
+        rankNeedsAll: "Rank rules are checked in the overlay, grid and book-sum views, where several markets are loaded.",
+        noHits: "No rule fired in the loaded histories.",
+        time: "Time",
+        market: "Market",
+        rule: "Rule",
+        detail: "Detail",
+        rankMove: (from: number, to: number) => `#${from} → #${to}`,
+        past: (name: string) => `past ${name}`,
+        behind: (name: string) => `behind ${name}`,
+        jump: "Jump to this moment",
+    },
+
+    caseFile: {
+        annotate: "Annotate",
+        annotateHint: "Drag across the chart to mark a range for the case file",
+        ranges: (count: number) => `${count} ranges`,
+        newRange: "New range",
+        tag: "Tag",
+        tagPlaceholder: "e.g. pre-poll accumulation",
+        severity: "Severity",
+        severities: {
+            low: "Low",
+            medium: "Medium",
+            high: "High",
+        },
+        note: "Note",
+        save: "Save",
+        cancel: "Cancel",
+        remove: "Remove annotation",
+        show: "Show on the chart",
+        untitled: "Untitled range",
+        reportHtml: "Report (HTML)",
+        reportMarkdown: "Report (Markdown)",
+        report: {
+            title: (event: string) => `Case file: ${event}`,
+            generated: (date: string) => `Generated ${date}`,
+            overview: "Chart at the time of the report",
+            ranges: "Annotated ranges",
+            market: "Market",
+            start: "Start",
+            end: "End",
+            change: "Change",
+            low: "Low",
+            high: "High",
+            polls: "Polls within 48 h",
+            noPolls: "No polls within 48 h of this range.",
+            noData: "No loaded price data in this range.",
+        },
+    },
+    events: {
+        title: "Tracked Events",
+        none: "No events found in public/data.",
+        open: "Open",
+        closed: "Closed",
+        volume: (value: string) => `Vol: ${value}`,
+    },
+    health: {
+        back: "← Back to the dashboard",
+        title: "Data Health",
+        refreshed: "Event refreshed",
+        statuses: {
+            unreadable: "Unreadable",
+            empty: "Empty",
+            stale: "Stale",
+            gaps: "Gaps",
+            ok: "OK",
+        },
+        intro: (gap: string, stale: string) =>
+            `Gaps of ${gap} or more between consecutive points are counted and shown as breaks on the charts. ` +
+            `Staleness is the time from a market's last point to the event's updatedAt; ${stale} or more is stale. ` +
+            "Empty markets are hidden from the dashboard.",
+        market: "Market",
+        status: "Status",
+        points: "Points",
+        declared: "Point count in summary.json",
+        first: "First point",
+        last: "Last point",
+        largestGap: "Largest gap",
+        behind: "Behind refresh",
+    },
+};
+
+export type Messages = typeof en;
+
+const ptPT: Messages = {
+    loading: "A carregar...",
+    loadingChart: "A carregar o gráfico...",
+    noData: "Sem dados disponíveis",
+    merging: (count) => `A juntar ${count} históricos…`,
+    loadingAll: "A carregar os dados de todos os mercados...",
+    points: (value) => `${value} p.p.`,
+    units: {
+        minutes: (n) => `${n} min`,
+        hours: (n) => `${n} h`,
+        days: (n) => `${n} d`,
+    },
+
+    sidebar: {
+        allEvents: "← Todos os eventos",
+        title: "Explorador de Mercados",
+        refreshed: (date) => `Atualizado ${date}`,
+        dataHealth: "Saúde dos dados →",
+        language: "Idioma",
+        dataSource: "Fonte de dados",
+        live: "API em direto",
+        snapshot: "Instantâneo",
+        timeZone: "Fuso horário",
+        minVolume: "Volume mínimo",
+        showAll: "Mostrar todos",
+        sortOrder: "Ordenação",
+        showPolls: "Mostrar sondagens",
+        resolutionFull: "Resolução: detalhe máximo (1 min)",
+        resolutionStep: (minutes) => `Resolução: ~1 ponto / ${minutes} min`,
+        resolutionMin: "Máx.",
+        resolutionMax: "3 h",
+        downsampling: "Redução de pontos",
+        viewMode: "Vista",
+        individual: "Individual",
+        overlay: "Sobreposição",
+        grid: "Grelha",
+        gridHint: "Um pequeno gráfico por mercado, cada um com a sua escala",
+        bookSum: "Soma do livro",
+        bookSumHint: "Soma dos preços SIM de todos os mercados",
+        chartStyle: "Tipo de gráfico",
+        line: "Linha",
+        candles: "Velas",
+        search: "Pesquisar mercados…",
+        showing: (shown, total) =>
+            shown === total ? `${shown} mercados` : `${shown} de ${total} mercados`,
+        pinned: (count) => ` · ${count} fixados`,
+        emptyHidden: (count) => ` · ${count} sem histórico`,
+        emptyHint: "Os mercados com ficheiro de histórico vazio ficam de fora; ver a página de saúde dos dados",
+        compare: (count) => `Comparar ${count}`,
+        clear: "Limpar",
+        change24h: "Variação em 24 h, p.p.",
+        change7d: "Variação em 7 dias, p.p.",
+        volume: (value) => `Vol.: ${value}`,
+        unpin: "Remover da lista de seguimento",
+        pin: "Fixar na lista de seguimento",
+        includeInOverlay: "Incluir na comparação sobreposta",
+        sparkline: "Preço nos últimos 7 dias",
+    },
+    sorts: {
+        price: "Preço atual (maior primeiro)",
+        volume: "Volume (maior primeiro)",
+        name: "Nome (A-Z)",
+        move24h: "Maior variação em 24 h",
+        volatility: "Mais volátil (7 dias)",
+    },
+    downsampleMethods: {
+        stride: "Um em cada N pontos",
+        lttb: "LTTB (forma)",
+        minmax: "Mín./máx. por intervalo",
+    },
+    calendarCategories: {
+        voting: "Votação",
+        debate: "Debates",
+        poll: "Publicação de sondagens",
+        results: "Resultados",
+    },
+    timeZones: {
+        local: "Hora local do navegador",
+        UTC: "UTC",
+        'Europe/Lisbon': "Lisboa",
+    },
+
+    views: {
+        bookSumTitle: "Monitor da soma do livro",
+        bookSumIntro: "Resultados mutuamente exclusivos devem somar 100%. Desvios súbitos coincidem muitas vezes com fluxo informado para um candidato. Cada mercado conta como 0 até ao seu primeiro preço.",
+        gridTitle: "Gráficos múltiplos",
+        gridIntro: "Cada mercado listado na sua própria escala. O zoom e o cursor são partilhados, para comparar um movimento num mercado com os restantes no mesmo instante.",
+        overlayTitle: "Sobreposição de todos os candidatos",
+        comparingSelected: (count) => `A comparar ${count} candidatos selecionados.`,
+        comparingTop: (count) => `A comparar os ${count} primeiros candidatos. Assinale mercados na barra lateral para escolher o seu conjunto.`,
+        marketId: "ID do mercado:",
+        totalVolume: "Volume total",
+        loadingMarket: "A carregar os dados do mercado...",
+        noChartData: "Sem dados para o gráfico",
+        notesTitle: "Notas de investigação",
+        noteJumps: "Procure subidas ou descidas bruscas antes da publicação de sondagens importantes. Os saltos detetados estão sombreados a vermelho.",
+        noteAccumulation: "Verifique acumulação sustentada (subida constante).",
+        notePointsBefore: "Este gráfico tem ",
+        notePointsAfter: " pontos de dados ao minuto.",
+        noteZoom: "Ative Anotar por cima do gráfico e arraste sobre um período para o juntar ao dossier.",
+        keyDates: "Datas-chave",
+        noMilestones: "Sem marcos do calendário a mostrar.",
+        noMarkets: "Nenhum mercado com volume suficiente. Baixe o limite.",
+        selectMarket: "Selecione um mercado para investigar",
+    },
+
+    zoom: {
+        last: (span) => `Últimos ${span} de dados`,
+        vote: (date) => `Votação ${date}`,
+        undo: "Anular zoom (Ctrl+Z)",
+        redo: "Refazer zoom (Ctrl+Shift+Z)",
+        reset: "Repor zoom",
+        hint: "Arraste para ampliar · Shift+arrastar para deslocar",
+        hintDetail: "Arraste para ampliar · Shift+arrastar para deslocar · Roda do rato para ampliar no cursor · Clique no gráfico e use ←/→ para deslocar, +/− para ampliar, 0 para repor",
+    },
+    chart: {
+        showing: (count, minutes) => `${count} pontos (~1 ponto/${minutes} min)`,
+        showingOf: (count, total, minutes) => `${count} de ${total} pontos (~1 ponto/${minutes} min)`,
+        candles: (count, minutes) => `${count} velas (1 / ${minutes} min)`,
+        open: "Abertura",
+        high: "Máximo",
+        low: "Mínimo",
+        close: "Fecho",
+        range: (value) => `Amplitude: ${value}`,
+        inBucket: (count) => `${count} pontos no intervalo`,
+        hover: "Passe o cursor sobre o gráfico para ver detalhes.",
+        latest: "Mais recente",
+        noTrades: "Sem negociação neste instante.",
+        noTradesYet: "Ainda sem negociação neste ponto.",
+        gap: "sem dados",
+        gaps: (count) => ` · ${count} ${count === 1 ? "falha" : "falhas"} nos dados`,
+    },
+    overlay: {
+        allTitle: "Comparação de todos os candidatos",
+        sharesTitle: "Probabilidades implícitas de vitória",
+        normalize: "Normalizar para 100%",
+        normalizeHint: "Dividir cada preço pela soma de todos os mercados do evento nesse instante (probabilidade implícita)",
+        replay: "▶ Reproduzir",
+        exitReplay: "Sair da reprodução",
+        replayHint: "Reproduzir a evolução da corrida no intervalo ampliado",
+        restart: "↺ Recomeçar",
+        pause: "❚❚ Pausa",
+        play: "▶ Continuar",
+        perSecond: (span) => `${span}/s`,
+    },
+    book: {
+        title: "Soma dos preços SIM",
+        series: "Soma do livro",
+        info: (markets, shown, total) => `${markets} mercados · ${shown} de ${total} pontos`,
+        flagBeyond: "Assinalar além de ±",
+        departures: "Desvios do livro",
+        departuresIntro: (band) =>
+            `Períodos em que a soma saiu de 100% ± ${band}. Vermelho: sobreavaliação (lado SIM caro), azul: subavaliação. Clique para ampliar.`,
+        inside: "O livro manteve-se dentro da banda.",
+        start: "Início",
+        duration: "Duração",
+        peak: "Pico",
+        peakAt: "Pico em",
+    },
+    grid: {
+        title: "Gráficos múltiplos",
+        info: (markets, shown, total) => `${markets} mercados · ${shown} de ${total} pontos cada`,
+        open: (name) => `Abrir ${name}`,
+    },
+
+    volatility: {
+        title: "Volatilidade e retornos",
+        intro: (points) => `Estatísticas do intervalo ampliado · ${points} pontos`,
+        window: "Janela de volatilidade",
+        realized: "Vol. realizada",
+        tooShort: (window) => `Histórico insuficiente para uma janela de ${window}.`,
+        distribution: "Distribuição dos retornos",
+        distributionNote: "Retornos a 1 minuto, com o preço mantido entre negociações e sem as falhas de dados; ±4σ em torno da média, escala de raiz quadrada; os valores extremos ficam nas classes das pontas.",
+        sigma: "σ por minuto",
+        skew: "Assimetria",
+        kurtosis: "Curtose em excesso",
+        kurtosisHint: "0 numa distribuição normal; acima disso, caudas mais pesadas",
+        tail: "Além de 3σ",
+        tailHint: (share) => `Uma distribuição normal põe ${share} aí`,
+        returns: "Retornos",
+        inBin: (count) => `${count} retornos`,
+        flat: "O preço não se mexeu neste intervalo.",
+        extremes: "Extremos",
+        drawdown: "Queda máxima",
+        noDecline: "Sem descidas neste intervalo.",
+        largestMove: "Maior movimento isolado",
+        moveIn: (from, to, minutes) => `${from} → ${to} em ${minutes} min`,
+        noMoves: "Sem movimentos neste intervalo.",
+    },
+    jumps: {
+        title: "Saltos de preço assinalados",
+        windows: (count) => `${count} janelas`,
+        none: "Não foram detetados movimentos anormais neste histórico.",
+        window: "Janela",
+        move: "Movimento",
+        before: "Antes",
+        score: "Pontuação",
+    },
+    exportMenu: {
+        button: "Exportar",
+        display: "Como mostrado",
+        raw: "Pontos brutos",
+        csv: "Dados em CSV",
+        json: "Dados em JSON",
+        svg: "Gráfico em SVG",
+        png: "Gráfico em PNG",
+    },
+    pollReactions: {
+        title: "Reações à publicação de sondagens",
+        intro: "Variação do preço (pontos) por janela, em horas relativas à publicação.",
+        windows: "Janelas (h)",
+        highlight: "Destacar ≥",
+        none: "Nenhuma sondagem cai dentro dos históricos de preços carregados.",
+        candidate: "Candidato",
+        atRelease: "Na publicação",
+        movedBefore: "Mexeu antes da publicação",
+        average: "Reação média (todas as publicações alinhadas em t=0)",
+    },
+    correlation: {
+        title: "Co-movimento",
+        intro: "Correlação das variações de preço no intervalo ampliado",
+        samples: (count, step) => ` · ${count} amostras a cada ${step}`,
+        updating: " · a atualizar…",
+        grid: "Grelha",
+        maxLag: "Desfasamento máx.",
+        computing: "A calcular…",
+        leadLag: "Antecipação (pares mais fortes)",
+        noPairs: "Não há movimentos sobrepostos suficientes neste intervalo.",
+        pair: "Líder → seguidor",
+        lead: "Avanço",
+        corrAtLead: "ρ no avanço",
+        corrSame: "ρ em simultâneo",
+        sameTime: "em simultâneo",
+    },
+    marketDetails: {
+        title: "Detalhes do mercado",
+        resolutions: {
+            yes: "Resolvido SIM",
+            no: "Resolvido NÃO",
+            pending: "Fechado · a aguardar resolução",
+            open: "Aberto",
+        },
+        outcomePrices: "Preços dos resultados",
+        yesNo: (yes, no) => `SIM ${yes} / NÃO ${no}`,
+        cents: (value) => `${value} ¢`,
+        lastTrade: "Última transação",
+        bestAsk: "Melhor oferta de venda",
+        spread: "Spread",
+        change1m: "Variação a 1 mês",
+        volume1w: "Volume 1 sem.",
+        volume1m: "Volume 1 mês",
+        volume1y: "Volume 1 ano",
+        ends: "Termina",
+        closed: "Fechado",
+        umaStatus: "Estado UMA",
+        showRules: "Mostrar regras de resolução",
+        hideRules: "Ocultar regras de resolução",
+    },
+    eventHeader: {
+        open: "Aberto",
+        closed: (date) => `Fechado a ${date}`,
+        volume: "Volume",
+        openInterest: "Posições em aberto",
+        resolutionSource: "Fonte de resolução",
+        perRules: "segundo as regras",
+        showRules: "Mostrar regras",
+        hideRules: "Ocultar regras",
+    },
+
+    alerts: {
+        title: "Alertas",
+        hits: (count) => `${count} ocorrências`,
+        import: "Importar",
+        export: "Exportar",
+        imported: (count) => `${count} regras importadas.`,
+        importFailed: (reason) => `Não foi possível importar as regras: ${reason}`,
+        rules: "Regras",
+        noRules: "Ainda não há regras.",
+        remove: "Remover regra",
+        allMarkets: "Todos os mercados",
+        kinds: {
+            cross: "Preço cruza",
+            move: "Preço varia",
+            rank: "Posição muda",
+        },
+        directions: {
+            up: "a subir",
+            down: "a descer",
+            either: "em qualquer sentido",
+        },
+        level: "Nível, %",
+        change: "Pontos",
+        minutes: "Em, min",
+        top: "Entre os primeiros",
+        add: "Adicionar regra",
+        invalid: {
+            cross: "Indique um nível entre 0 e 100%.",
+            move: "Indique uma variação acima de 0 pontos e uma janela de pelo menos 1 minuto.",
+            rank: "Indique um top de pelo menos 1.",
+        },
+        cross: (level, direction) => `cruza ${level} ${direction}`,
+        move: (change, minutes) => `varia ${change} em ${minutes} min`,
+        rank: (top) => `posição muda entre os ${top} primeiros`,
+        rankNeedsAll: "As regras de posição são verificadas nas vistas de sobreposição, grelha e soma do livro, onde vários mercados estão carregados.",
+        noHits: "Nenhuma regra disparou nos históricos carregados.",
+        time: "Hora",
+        market: "Mercado",
+        rule: "Regra",
+        detail: "Detalhe",
+        rankMove: (from, to) => `#${from} → #${to}`,
+        past: (name) => `ultrapassa ${name}`,
+        behind: (name) => `atrás de ${name}`,
+        jump: "Ir para este momento",
+    },
+
+    caseFile: {
+        annotate: "Anotar",
+        annotateHint: "Arraste sobre o gráfico para marcar um período no dossier",
+        ranges: (count) => `${count} períodos`,
+        newRange: "Novo período",
+        tag: "Etiqueta",
+        tagPlaceholder: "p. ex. acumulação antes da sondagem",
+        severity: "Gravidade",
+        severities: {
+            low: "Baixa",
+            medium: "Média",
+            high: "Alta",
+        },
+        note: "Nota",
+        save: "Guardar",
+        cancel: "Cancelar",
+        remove: "Remover anotação",
+        show: "Mostrar no gráfico",
+        untitled: "Período sem título",
+        reportHtml: "Relatório (HTML)",
+        reportMarkdown: "Relatório (Markdown)",
+        report: {
+            title: (event) => `Dossier: ${event}`,
+            generated: (date) => `Gerado em ${date}`,
+            overview: "Gráfico no momento do relatório",
+            ranges: "Períodos anotados",
+            market: "Mercado",
+            start: "Início",
+            end: "Fim",
+            change: "Variação",
+            low: "Mínimo",
+            high: "Máximo",
+            polls: "Sondagens num raio de 48 h",
+            noPolls: "Nenhuma sondagem a menos de 48 h deste período.",
+            noData: "Sem dados de preço carregados neste período.",
+        },
+    },
+    events: {
+        title: "Eventos acompanhados",
+        none: "Nenhum evento encontrado em public/data.",
+        open: "Aberto",
+        closed: "Fechado",
+        volume: (value) => `Vol.: ${value}`,
+    },
+    health: {
+        back: "← Voltar ao painel",
+        title: "Saúde dos dados",
+        refreshed: "Evento atualizado",
+        statuses: {
+            unreadable: "Ilegível",
+            empty: "Vazio",
+            stale: "Desatualizado",
+            gaps: "Falhas",
+            ok: "OK",
+        },
+        intro: (gap, stale) =>
+            `Intervalos de ${gap} ou mais entre pontos consecutivos são contados e mostrados como quebras nos gráficos. ` +
+            `O atraso é o tempo entre o último ponto de um mercado e o updatedAt do evento; ${stale} ou mais é desatualizado. ` +
+            "Os mercados vazios não aparecem no painel.",
+        market: "Mercado",
+        status: "Estado",
+        points: "Pontos",
+        declared: "Número de pontos em summary.json",
+        first: "Primeiro ponto",
+        last: "Último ponto",
+        largestGap: "Maior falha",
+        behind: "Atraso face à atualização",
+    },
+};
+
+export const MESSAGES: Record<Locale, Messages> = { en, 'pt-PT': ptPT };
+
+// Formatting helpers bound to one locale
+export function localeTools(locale: Locale) {
+    const number = (value: number, options?: Intl.NumberFormatOptions) => value.toLocaleString(locale, options);
+    const fixed = (value: number, digits: number) =>
+        number(value, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+    return {
+        locale,
+        t: MESSAGES[locale],
+        number,
+        // 0.123 -> "12.3%" / "12,3%"
+        percent: (value: number, digits = 1) => `${fixed(value * 100, digits)}%`,
+        // Price change in percentage points: 0.012 -> "1.2 pts" / "1,2 p.p."
+        pts: (value: number, digits = 1) => MESSAGES[locale].points(fixed(value * 100, digits)),
+        usd: (value: number, options?: Intl.NumberFormatOptions) =>
+            number(value, { style: 'currency', currency: 'USD', maximumFractionDigits: 0, ...options }),
+        fixed,
+    };
+}
+
+export type LocaleTools = ReturnType<typeof localeTools>;
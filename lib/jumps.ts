@@ -0,0 +1,122 @@
+// Price-jump detector: flags minute returns that are abnormal relative to the
+// market's own recent volatility, and ranks them by proximity to known catalysts.
+
+import { GAP_THRESHOLD } from "./dataHealth";
+import type { DataPoint } from "./schema";
+
+export interface Catalyst {
+    t: number; // unix seconds
+    label: string;
+}
+
+export interface JumpOptions {
+    window?: number;       // number of prior returns used for rolling volatility
+    zThreshold?: number;   // minimum |z-score| of a return to be flagged
+    minMove?: number;      // minimum absolute price change of a window (0-1 scale)
+    mergeGap?: number;     // seconds between flagged returns that still join one window
+    leadWindow?: number;   // seconds before a catalyst in which a move counts as "pre-catalyst"
+}
+
+export interface JumpFlag {
+    start: number;
+    end: number;
+    from: number;
+    to: number;
+    change: number;
+    z: number;             // largest |z| inside the window, signed by direction
+    score: number;
+    catalyst?: Catalyst & { lead: number }; // lead = seconds from window end to catalyst
+}
+
+const DEFAULTS: Required<JumpOptions> = {
+    window: 60,
+    zThreshold: 4,
+    minMove: 0.02,
+    mergeGap: 5 * 60,
+    leadWindow: 48 * 3600,
+};
+
+// Floor for rolling volatility so flat stretches don't produce infinite z-scores
+const MIN_SIGMA = 0.001;
+
+export function detectJumps(data: DataPoint[], catalysts: Catalyst[] = [], options: JumpOptions = {}): JumpFlag[] {
+    const opts = { ...DEFAULTS, ...options };
+    if (!data || data.length <= opts.window + 1) return [];
+
+    // Returns ending at each index, skipping those that span a data gap: hours of
+    // missing history are not one minute's move
+    const ends: number[] = [];
+    const returns: number[] = [];
+    for (let i = 1; i < data.length; i++) {
+        if (data[i].t - data[i - 1].t >= GAP_THRESHOLD) continue;
+        ends.push(i);
+        returns.push(data[i].p - data[i - 1].p);
+    }
+    if (returns.length <= opts.window) return [];
+
+    // Rolling sums over the `window` returns preceding return k (exclusive)
+    let sum = 0;
+    let sumSq = 0;
+    for (let k = 0; k < opts.window; k++) {
+        sum += returns[k];
+        sumSq += returns[k] * returns[k];
+    }
+
+    const hits: { i: number; z: number }[] = [];
+    for (let k = opts.window; k < returns.length; k++) {
+        const mean = sum / opts.window;
+        const variance = Math.max(0, sumSq / opts.window - mean * mean);
+        const sigma = Math.max(Math.sqrt(variance), MIN_SIGMA);
+        const z = (returns[k] - mean) / sigma;
+        if (Math.abs(z) >= opts.zThreshold) hits.push({ i: ends[k], z });
+
+        const dropped = returns[k - opts.window];
+        sum += returns[k] - dropped;
+        sumSq += returns[k] * returns[k] - dropped * dropped;
+    }
+
+    // Merge nearby hits into windows: a jump spread over a few minutes is one event
+    const windows: { first: number; last: number; z: number }[] = [];
+    for (const hit of hits) {
+        const current = windows[windows.length - 1];
+        if (current && data[hit.i].t - data[current.last].t <= opts.mergeGap) {
+            current.last = hit.i;
+            if (Math.abs(hit.z) > Math.abs(current.z)) current.z = hit.z;
+        } else {
+            windows.push({ first: hit.i, last: hit.i, z: hit.z });
+        }
+    }
+
+    const sortedCatalysts = [...catalysts].sort((a, b) => a.t - b.t);
+
+    return windows
+        .map(w => {
+            const from = data[w.first - 1].p;
+            const to = data[w.last].p;
+            const flag: JumpFlag = {
+                start: data[w.first - 1].t,
+                end: data[w.last].t,
+                from,
+                to,
+                change: to - from,
+                z: w.z,
+                score: 0,
+            };
+            const next = sortedCatalysts.find(c => c.t >= flag.end);
+            if (next && next.t - flag.end <= opts.leadWindow) {
+                flag.catalyst = { ...next, lead: next.t - flag.end };
+            }
+            flag.score = scoreJump(flag, opts.leadWindow);
+            return flag;
+        })
+        .filter(f => Math.abs(f.change) >= opts.minMove);
+}
+
+// Magnitude (|z| weighted by size in points), boosted up to 3x the closer the
+// move lands before a catalyst.
+function scoreJump(flag: JumpFlag, leadWindow: number): number {
+    const base = Math.abs(flag.z) * Math.abs(flag.change) * 100;
+    if (!flag.catalyst) return base;
+    const proximity = 1 - flag.catalyst.lead / leadWindow;
+    return base * (1 + 2 * proximity);
+}
@@ -0,0 +1,63 @@
+// Columnar forward-fill merge of several {t, p} histories onto one shared timeline.
+
+export interface SeriesColumns {
+    id: string;
+    t: Float64Array;
+    p: Float64Array;
+}
+
+export interface MergedColumns {
+    ids: string[];
+    t: Float64Array;
+    values: Float64Array[]; // one column per series; NaN before the series' first point
+}
+
+// Union of all timestamps, then each series forward-filled onto it.
+// `onProgress` is called after every series with (done, total).
+export function mergeForwardFill(series: SeriesColumns[], onProgress?: (done: number, total: number) => void): MergedColumns {
+    const totalPoints = series.reduce((sum, s) => sum + s.t.length, 0);
+    const all = new Float64Array(totalPoints);
+    let offset = 0;
+    for (const s of series) {
+        all.set(s.t, offset);
+        offset += s.t.length;
+    }
+    all.sort();
+
+    // Deduplicate in place
+    let unique = 0;
+    for (let i = 0; i < all.length; i++) {
+        if (i === 0 || all[i] !== all[unique - 1]) all[unique++] = all[i];
+    }
+    const t = all.slice(0, unique);
+
+    const values = series.map((s, k) => {
+        const column = new Float64Array(t.length).fill(NaN);
+        let j = 0;
+        let last = NaN;
+        for (let i = 0; i < t.length; i++) {
+            while (j < s.t.length && s.t[j] <= t[i]) last = s.p[j++];
+            column[i] = last;
+        }
+        onProgress?.(k + 1, series.length);
+        return column;
+    });
+
+    return { ids: series.map(s => s.id), t, values };
+}
+
+// Row objects ({ t, [id]: price }) for the given indices, as the charts consume them
+export function toRows(merged: Pick<MergedColumns, 'ids' | 't' | 'values'>, indices?: ArrayLike<number>) {
+    const count = indices ? indices.length : merged.t.length;
+    const rows: ({ t: number } & Record<string, number>)[] = new Array(count);
+    for (let r = 0; r < count; r++) {
+        const i = indices ? indices[r] : r;
+        const row: { t: number } & Record<string, number> = { t: merged.t[i] };
+        merged.ids.forEach((id, k) => {
+            const v = merged.values[k][i];
+            if (!Number.isNaN(v)) row[id] = v;
+        });
+        rows[r] = row;
+    }
+    return rows;
+}
@@ -0,0 +1,35 @@
+// Aggregate minute-level {t, p} points into open/high/low/close candles.
+
+import type { DataPoint } from "./schema";
+
+export interface Candle {
+    t: number;              // bucket start, unix seconds
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    count: number;          // raw points inside the bucket
+    range: [number, number]; // [low, high], the bar extent drawn by the chart
+}
+
+// Buckets are aligned to multiples of `bucketSeconds` so candles stay stable while zooming
+export function aggregateOHLC(data: DataPoint[], bucketSeconds: number): Candle[] {
+    const candles: Candle[] = [];
+    let current: Candle | null = null;
+
+    for (const point of data) {
+        const bucket = Math.floor(point.t / bucketSeconds) * bucketSeconds;
+        if (!current || current.t !== bucket) {
+            if (current) candles.push(current);
+            current = { t: bucket, open: point.p, high: point.p, low: point.p, close: point.p, count: 0, range: [point.p, point.p] };
+        }
+        current.high = Math.max(current.high, point.p);
+        current.low = Math.min(current.low, point.p);
+        current.close = point.p;
+        current.count++;
+        current.range = [current.low, current.high];
+    }
+    if (current) candles.push(current);
+
+    return candles;
+}
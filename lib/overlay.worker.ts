@@ -0,0 +1,174 @@
+// Overlay pipeline off the main thread: merges every history once per load, then
+// answers zoom requests by slicing and downsampling the cached merge.
+
+import { mergeForwardFill, type MergedColumns, type SeriesColumns } from "./merge";
+import { rangeIndices, selectIndices, type DownsampleMethod } from "./downsample";
+import { bookSum, findDepartures, SUM_KEY, type BookDeparture } from "./overround";
+import { correlationSteps, type CorrelationResult } from "./correlation";
+
+// How view rows are derived from the merged prices:
+// 'normalize' divides each price by the book sum (every loaded market), 'sum' returns only the book sum
+export type SeriesTransform = 'none' | 'normalize' | 'sum';
+
+export type OverlayRequest =
+    | { type: 'load'; version: number; series: SeriesColumns[] }
+    | {
+        type: 'view';
+        version: number;
+        requestId: number;
+        left: number | null;
+        right: number | null;
+        target: number;
+        method: DownsampleMethod;
+        transform: SeriesTransform;
+        show: string[] | null; // series to return, all of them when null
+    }
+    | { type: 'departures'; version: number; requestId: number; threshold: number }
+    | {
+        type: 'correlation';
+        version: number;
+        requestId: number;
+        left: number | null;
+        right: number | null;
+        step: number;     // grid spacing, seconds
+        maxLag: number;   // seconds
+        show: string[] | null; // series to correlate, all of them when null
+    };
+
+export type OverlayResponse =
+    | { type: 'progress'; version: number; done: number; total: number }
+    | { type: 'loaded'; version: number; length: number; start: number; end: number }
+    | {
+        type: 'view';
+        version: number;
+        requestId: number;
+        ids: string[];
+        t: Float64Array;
+        values: Float64Array[];
+        inRange: number; // rows inside the range before downsampling
+    }
+    | { type: 'departures'; version: number; requestId: number; departures: BookDeparture[] }
+    | { type: 'correlation'; version: number; requestId: number; result: CorrelationResult }
+    // Reply to a request made against a superseded load, so its caller always settles
+    | { type: 'stale'; version: number; requestId: number };
+
+let merged: MergedColumns | null = null;
+let mergedVersion = -1;
+let sum: Float64Array | null = null; // book sum of the current merge, computed on first use
+let shares: Float64Array[] | null = null; // implied shares of the current merge, likewise
+
+// Lag scans run in slices of this many milliseconds; view requests queued behind
+// one are served between slices, so zooming stays responsive
+const CORRELATION_SLICE_MS = 30;
+// Only the latest correlation request is worked on; older ones are answered as stale
+let correlationRun = 0;
+
+const currentSum = (columns: MergedColumns) => {
+    if (!sum) sum = bookSum(columns.values, columns.t.length);
+    return sum;
+};
+
+// Implied shares: every price divided by the book sum at that timestamp. Taken on the
+// full merge so the denominator is the whole book, not just the rows or series shown.
+const currentShares = (columns: MergedColumns) => {
+    if (!shares) {
+        const book = currentSum(columns);
+        shares = columns.values.map(column => column.map((p, i) => book[i] > 0 ? p / book[i] : NaN));
+    }
+    return shares;
+};
+
+// Column indices of the requested series; the merge may hold more (the whole book)
+const shownIndices = (ids: string[], show: string[] | null) => {
+    const shown = show ? new Set(show) : null;
+    return ids.flatMap((id, k) => !shown || shown.has(id) ? [k] : []);
+};
+
+const post = (message: OverlayResponse, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<OverlayRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'load') {
+        post({ type: 'progress', version: request.version, done: 0, total: request.series.length });
+        merged = mergeForwardFill(request.series, (done, total) =>
+            post({ type: 'progress', version: request.version, done, total })
+        );
+        mergedVersion = request.version;
+        sum = null;
+        shares = null;
+        post({
+            type: 'loaded',
+            version: request.version,
+            length: merged.t.length,
+            start: merged.t.length ? merged.t[0] : 0,
+            end: merged.t.length ? merged.t[merged.t.length - 1] : 0,
+        });
+        return;
+    }
+
+    // Requests for a superseded load get no data; the UI asks again once the new merge lands
+    if (!merged || request.version !== mergedVersion) {
+        post({ type: 'stale', version: request.version, requestId: request.requestId });
+        return;
+    }
+
+    if (request.type === 'departures') {
+        const departures = findDepartures(merged.t, currentSum(merged), request.threshold);
+        post({ type: 'departures', version: request.version, requestId: request.requestId, departures });
+        return;
+    }
+
+    if (request.type === 'correlation') {
+        const last = merged.t.length - 1;
+        const from = request.left ?? (last >= 0 ? merged.t[0] : 0);
+        const to = request.right ?? (last >= 0 ? merged.t[last] : 0);
+        const keep = shownIndices(merged.ids, request.show);
+        const steps = correlationSteps(
+            keep.map(k => merged!.ids[k]),
+            merged.t,
+            keep.map(k => merged!.values[k]),
+            from,
+            to,
+            request.step,
+            request.maxLag
+        );
+        const { version, requestId } = request;
+        const run = ++correlationRun;
+        const slice = () => {
+            if (run !== correlationRun || version !== mergedVersion) {
+                post({ type: 'stale', version, requestId });
+                return;
+            }
+            const until = performance.now() + CORRELATION_SLICE_MS;
+            let next = steps.next();
+            while (!next.done && performance.now() < until) next = steps.next();
+            if (next.done) post({ type: 'correlation', version, requestId, result: next.value });
+            else setTimeout(slice, 0);
+        };
+        slice();
+        return;
+    }
+
+    const sumOnly = request.transform === 'sum';
+    const all = request.transform === 'normalize' ? currentShares(merged) : merged.values;
+    const keep = shownIndices(merged.ids, request.show);
+    const ids = sumOnly ? [SUM_KEY] : keep.map(k => merged!.ids[k]);
+    const columns = sumOnly ? [currentSum(merged)] : keep.map(k => all[k]);
+
+    const [start, end] = rangeIndices(merged.t, request.left, request.right);
+    const indices = selectIndices(merged.t, columns, start, end, request.target, request.method);
+    const t = new Float64Array(indices.length);
+    const values = columns.map(() => new Float64Array(indices.length));
+    indices.forEach((i, r) => {
+        t[r] = merged!.t[i];
+        columns.forEach((column, k) => { values[k][r] = column[i]; });
+    });
+
+    post(
+        { type: 'view', version: request.version, requestId: request.requestId, ids, t, values, inRange: end - start },
+        [t.buffer, ...values.map(v => v.buffer)]
+    );
+};
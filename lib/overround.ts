@@ -0,0 +1,62 @@
+// Book-sum monitor for mutually exclusive (negRisk) events: the YES prices of all
+// markets should add up to about 1. Departures from 1 (overround or underround)
+// are where the book is mispriced, often right as informed flow hits one candidate.
+
+// Column id of the book sum in overlay worker views
+export const SUM_KEY = "sum";
+
+export interface BookDeparture {
+    start: number;  // unix seconds
+    end: number;
+    peakT: number;
+    peak: number;   // signed deviation from 1 at the largest |sum - 1|
+}
+
+// Sum of every series at each timestamp (columns are forward-filled). A market counts
+// as 0 before its first price, as if not yet listed; NaN only before any series starts.
+export function bookSum(values: ArrayLike<number>[], length: number): Float64Array {
+    const sum = new Float64Array(length).fill(NaN);
+    for (const column of values) {
+        for (let i = 0; i < length; i++) {
+            const v = column[i];
+            if (Number.isNaN(v)) continue;
+            sum[i] = Number.isNaN(sum[i]) ? v : sum[i] + v;
+        }
+    }
+    return sum;
+}
+
+// Contiguous runs where |sum - 1| > threshold
+export function findDepartures(t: ArrayLike<number>, sum: ArrayLike<number>, threshold: number): BookDeparture[] {
+    const departures: BookDeparture[] = [];
+    let current: BookDeparture | null = null;
+
+    for (let i = 0; i < sum.length; i++) {
+        const deviation = sum[i] - 1;
+        const outside = Math.abs(deviation) > threshold;
+        if (outside) {
+            // Flipping straight from over- to underround starts a new departure
+            if (current !== null && Math.sign(deviation) !== Math.sign(current.peak)) {
+                current.end = t[i];
+                departures.push(current);
+                current = null;
+            }
+            if (current === null) {
+                current = { start: t[i], end: t[i], peakT: t[i], peak: deviation };
+            } else {
+                current.end = t[i];
+                if (Math.abs(deviation) > Math.abs(current.peak)) {
+                    current.peak = deviation;
+                    current.peakT = t[i];
+                }
+            }
+        } else if (current !== null && !Number.isNaN(deviation)) {
+            // The departure lasts until the book is back inside the band
+            current.end = t[i];
+            departures.push(current);
+            current = null;
+        }
+    }
+    if (current !== null) departures.push(current);
+    return departures;
+}
@@ -0,0 +1,104 @@
+// Event study around poll releases: how each candidate's price moved in fixed
+// windows before and after every poll publication.
+
+import type { DataPoint, Poll } from "./schema";
+import { pollTime } from "./timeZone";
+
+interface Series {
+    id: string;
+    name: string;
+    data: DataPoint[];
+}
+
+export interface CandidateReaction {
+    id: string;
+    name: string;
+    base: number | null;                       // price at release time
+    changes: Record<number, number | null>;    // window (hours) -> price change
+}
+
+export interface PollReaction {
+    poll: Poll;
+    t: number;
+    candidates: CandidateReaction[];
+    preMove: boolean; // significant movement in a window before publication
+}
+
+// Last known price at or before t (forward-fill), null before the first point
+export function priceAt(data: DataPoint[], t: number): number | null {
+    let lo = 0;
+    let hi = data.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (data[mid].t <= t) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found === -1 ? null : data[found].p;
+}
+
+// Change over a window relative to release time. Negative windows measure the
+// run-up (price at release minus price `w` hours earlier), positive ones the reaction.
+function windowChange(data: DataPoint[], t: number, hours: number): number | null {
+    const offset = t + hours * 3600;
+    if (data.length === 0 || offset > data[data.length - 1].t) return null;
+    const atRelease = priceAt(data, t);
+    const atOffset = priceAt(data, offset);
+    if (atRelease === null || atOffset === null) return null;
+    return hours < 0 ? atRelease - atOffset : atOffset - atRelease;
+}
+
+export function computePollReactions(
+    polls: Poll[],
+    series: Series[],
+    windows: number[],
+    threshold: number
+): PollReaction[] {
+    return polls
+        .map(poll => {
+            const t = pollTime(poll);
+            const candidates = series.map(s => {
+                const changes: Record<number, number | null> = {};
+                for (const w of windows) changes[w] = windowChange(s.data, t, w);
+                return { id: s.id, name: s.name, base: priceAt(s.data, t), changes };
+            });
+            const preMove = candidates.some(c =>
+                windows.some(w => w < 0 && Math.abs(c.changes[w] ?? 0) >= threshold)
+            );
+            return { poll, t, candidates, preMove };
+        })
+        // Skip polls outside every candidate's history
+        .filter(r => r.candidates.some(c => c.base !== null))
+        .sort((a, b) => a.t - b.t);
+}
+
+// Mean price change relative to release time (t=0), sampled hourly from
+// -spanHours to +spanHours and averaged over every poll with data.
+export function averageReaction(polls: Poll[], series: Series[], spanHours: number) {
+    const releases = polls.map(pollTime);
+    const rows: Record<string, number>[] = [];
+
+    for (let h = -spanHours; h <= spanHours; h++) {
+        const row: Record<string, number> = { offset: h };
+        for (const s of series) {
+            let total = 0;
+            let count = 0;
+            for (const t of releases) {
+                const base = priceAt(s.data, t);
+                const at = t + h * 3600;
+                if (base === null || s.data.length === 0 || at > s.data[s.data.length - 1].t) continue;
+                const price = priceAt(s.data, at);
+                if (price === null) continue;
+                total += price - base;
+                count++;
+            }
+            if (count > 0) row[s.id] = total / count;
+        }
+        rows.push(row);
+    }
+    return rows;
+}
@@ -0,0 +1,211 @@
+// Case-file report: the annotated ranges with price changes, nearby polls and
+// chart snapshots, as one self-contained HTML page or Markdown file.
+
+import { nearbyPolls, rangeChange, SEVERITY_COLORS, type Annotation } from "./annotations";
+import type { DateStyle, LocaleTools } from "./i18n";
+import type { DataPoint, Poll } from "./schema";
+import { pollTime } from "./timeZone";
+
+export interface ReportSeries {
+    id: string;
+    name: string;
+    color: string;
+    data: DataPoint[];
+}
+
+export interface CaseReport {
+    title: string;
+    generated: number;    // unix seconds
+    annotations: Annotation[];
+    series: ReportSeries[];
+    polls: Poll[];
+    overview?: string;    // SVG markup of the chart as shown when the report was made
+}
+
+export interface ReportFormat {
+    tools: LocaleTools;
+    formatTime: (t: number, style: DateStyle) => string;
+}
+
+const SNAPSHOT_WIDTH = 640;
+const SNAPSHOT_HEIGHT = 200;
+const SNAPSHOT_POINTS = 600;
+// Context either side of a range in its snapshot: 15% of the range, at least 30 min
+const snapshotPadding = (a: Annotation) => Math.max((a.end - a.start) * 0.15, 30 * 60);
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Standalone SVG of the range's markets with the range shaded
+export function rangeSnapshot(annotation: Annotation, series: ReportSeries[], { tools, formatTime }: ReportFormat): string | null {
+    const pad = snapshotPadding(annotation);
+    const x0 = annotation.start - pad;
+    const x1 = annotation.end + pad;
+    const shown = series
+        .filter(s => annotation.markets.includes(s.id))
+        .map(s => {
+            const inside = s.data.filter(d => d.t >= x0 && d.t <= x1);
+            const stride = Math.max(1, Math.ceil(inside.length / SNAPSHOT_POINTS));
+            return { ...s, data: inside.filter((_, i) => i % stride === 0 || i === inside.length - 1) };
+        })
+        .filter(s => s.data.length > 1);
+    if (shown.length === 0) return null;
+
+    const prices = shown.flatMap(s => s.data.map(d => d.p));
+    const margin = Math.max((Math.max(...prices) - Math.min(...prices)) * 0.1, 0.005);
+    const y0 = Math.max(0, Math.min(...prices) - margin);
+    const y1 = Math.min(1, Math.max(...prices) + margin);
+    const left = 48;
+    const top = 8;
+    const width = SNAPSHOT_WIDTH - left - 8;
+    const height = SNAPSHOT_HEIGHT - top - 24;
+    const x = (t: number) => left + ((t - x0) / (x1 - x0)) * width;
+    const y = (p: number) => top + (1 - (p - y0) / (y1 - y0)) * height;
+    const color = SEVERITY_COLORS[annotation.severity];
+
+    const lines = shown.map(s =>
+        `<polyline fill="none" stroke="${s.color}" stroke-width="1.5" points="${s.data.map(d => `${x(d.t).toFixed(1)},${y(d.p).toFixed(1)}`).join(" ")}"/>`
+    );
+    const label = (text: string, tx: number, ty: number, anchor = "start") =>
+        `<text x="${tx}" y="${ty}" fill="#94a3b8" font-size="11" text-anchor="${anchor}">${escapeXml(text)}</text>`;
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${SNAPSHOT_WIDTH}" height="${SNAPSHOT_HEIGHT}" viewBox="0 0 ${SNAPSHOT_WIDTH} ${SNAPSHOT_HEIGHT}" font-family="Arial, Helvetica, sans-serif">`,
+        `<rect width="100%" height="100%" fill="#0f172a"/>`,
+        `<rect x="${x(annotation.start).toFixed(1)}" y="${top}" width="${(x(annotation.end) - x(annotation.start)).toFixed(1)}" height="${height}" fill="${color}" fill-opacity="0.15" stroke="${color}" stroke-opacity="0.6"/>`,
+        ...lines,
+        label(tools.percent(y1), left - 4, top + 10, "end"),
+        label(tools.percent(y0), left - 4, top + height, "end"),
+        label(formatTime(x0, 'dateTime'), left, SNAPSHOT_HEIGHT - 6),
+        label(formatTime(x1, 'dateTime'), SNAPSHOT_WIDTH - 8, SNAPSHOT_HEIGHT - 6, "end"),
+        `</svg>`,
+    ].join("");
+}
+
+// Base64 data URI, so Markdown viewers can show the SVG inline
+const svgDataUri = (svg: string) => {
+    const bytes = new TextEncoder().encode(svg);
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+const byStart = (annotations: Annotation[]) => [...annotations].sort((a, b) => a.start - b.start);
+
+// Per-market price rows of one range; markets without loaded data are skipped
+const changeRows = (annotation: Annotation, series: ReportSeries[]) =>
+    series
+        .filter(s => annotation.markets.includes(s.id))
+        .flatMap(s => {
+            const change = rangeChange(s.data, annotation.start, annotation.end);
+            return change ? [{ name: s.name, ...change }] : [];
+        });
+
+export function reportMarkdown(report: CaseReport, format: ReportFormat): string {
+    const { tools: { t, percent, pts }, formatTime } = format;
+    const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+    const alt = (text: string) => cell(text).replace(/[[\]]/g, "");
+    const out: string[] = [
+        `# ${t.caseFile.report.title(report.title)}`,
+        "",
+        `_${t.caseFile.report.generated(formatTime(report.generated, 'dateTimeYear'))}_`,
+        "",
+    ];
+    if (report.overview) {
+        out.push(`## ${t.caseFile.report.overview}`, "", `![${alt(report.title)}](${svgDataUri(report.overview)})`, "");
+    }
+    out.push(`## ${t.caseFile.report.ranges}`, "");
+
+    for (const a of byStart(report.annotations)) {
+        out.push(
+            `### [${t.caseFile.severities[a.severity]}] ${a.tag || t.caseFile.untitled}`,
+            "",
+            `${formatTime(a.start, 'dateTimeYear')} → ${formatTime(a.end, 'dateTimeYear')}`,
+            "",
+        );
+        if (a.note) out.push(...a.note.split("\n").map(line => `> ${line}`), "");
+
+        const rows = changeRows(a, report.series);
+        if (rows.length > 0) {
+            const r = t.caseFile.report;
+            out.push(
+                `| ${r.market} | ${r.start} | ${r.end} | ${r.change} | ${r.low} | ${r.high} |`,
+                "|---|---:|---:|---:|---:|---:|",
+                ...rows.map(row =>
+                    `| ${cell(row.name)} | ${percent(row.from)} | ${percent(row.to)} | ${row.change > 0 ? '+' : ''}${pts(row.change)} | ${percent(row.low)} | ${percent(row.high)} |`
+                ),
+                "",
+            );
+        } else {
+            out.push(`_${t.caseFile.report.noData}_`, "");
+        }
+
+        const polls = nearbyPolls(report.polls, a.start, a.end);
+        out.push(`**${t.caseFile.report.polls}**`, "");
+        if (polls.length > 0) {
+            out.push(...polls.map(poll => `- ${formatTime(pollTime(poll), 'dateTime')} · ${poll.firm}: ${poll.description}`), "");
+        } else {
+            out.push(`_${t.caseFile.report.noPolls}_`, "");
+        }
+
+        const snapshot = rangeSnapshot(a, report.series, format);
+        if (snapshot) out.push(`![${alt(a.tag)}](${svgDataUri(snapshot)})`, "");
+    }
+    return out.join("\n");
+}
+
+export function reportHtml(report: CaseReport, format: ReportFormat): string {
+    const { tools: { locale, t, percent, pts }, formatTime } = format;
+    const r = t.caseFile.report;
+    const sections = byStart(report.annotations).map(a => {
+        const color = SEVERITY_COLORS[a.severity];
+        const rows = changeRows(a, report.series);
+        const polls = nearbyPolls(report.polls, a.start, a.end);
+        const snapshot = rangeSnapshot(a, report.series, format);
+        return `
+<section>
+  <h3><span class="badge" style="background:${color}">${escapeXml(t.caseFile.severities[a.severity])}</span> ${escapeXml(a.tag || t.caseFile.untitled)}</h3>
+  <p class="range">${escapeXml(formatTime(a.start, 'dateTimeYear'))} → ${escapeXml(formatTime(a.end, 'dateTimeYear'))}</p>
+  ${a.note ? `<blockquote>${escapeXml(a.note).replace(/\n/g, "<br>")}</blockquote>` : ""}
+  ${rows.length > 0 ? `<table>
+    <tr><th>${escapeXml(r.market)}</th><th>${escapeXml(r.start)}</th><th>${escapeXml(r.end)}</th><th>${escapeXml(r.change)}</th><th>${escapeXml(r.low)}</th><th>${escapeXml(r.high)}</th></tr>
+    ${rows.map(row => `<tr><td>${escapeXml(row.name)}</td><td>${percent(row.from)}</td><td>${percent(row.to)}</td><td class="${row.change > 0 ? "up" : row.change < 0 ? "down" : ""}">${row.change > 0 ? '+' : ''}${escapeXml(pts(row.change))}</td><td>${percent(row.low)}</td><td>${percent(row.high)}</td></tr>`).join("\n    ")}
+  </table>` : `<p class="muted">${escapeXml(r.noData)}</p>`}
+  <h4>${escapeXml(r.polls)}</h4>
+  ${polls.length > 0
+            ? `<ul>${polls.map(poll => `<li>${escapeXml(formatTime(pollTime(poll), 'dateTime'))} · <strong>${escapeXml(poll.firm)}</strong>: ${escapeXml(poll.description)}</li>`).join("")}</ul>`
+            : `<p class="muted">${escapeXml(r.noPolls)}</p>`}
+  ${snapshot ?? ""}
+</section>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(r.title(report.title))}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+  h1 { font-size: 1.5rem; }
+  section { border-top: 1px solid #cbd5e1; padding-top: 1rem; margin-top: 1.5rem; }
+  .badge { color: white; font-size: 0.75rem; padding: 0.1rem 0.5rem; border-radius: 999px; vertical-align: middle; }
+  .range, .muted { color: #64748b; }
+  blockquote { border-left: 3px solid #cbd5e1; margin: 0.5rem 0; padding-left: 0.75rem; }
+  table { border-collapse: collapse; font-size: 0.875rem; margin: 0.5rem 0; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 0.25rem 0.75rem; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  .up { color: #059669; }
+  .down { color: #dc2626; }
+  svg { max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(r.title(report.title))}</h1>
+<p class="muted">${escapeXml(r.generated(formatTime(report.generated, 'dateTimeYear')))}</p>
+${report.overview ? `<h2>${escapeXml(r.overview)}</h2>\n${report.overview}` : ""}
+<h2>${escapeXml(r.ranges)}</h2>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,324 @@
+// Data contract for the files under public/data/<slug>/, shared by the server pages,
+// client fetches and the build-time check. Validators return every problem found
+// rather than stopping at the first, so a broken file gets one complete report.
+
+import { parseDataDate } from "./timeZone";
+
+// summary.json: one entry per market
+export interface Market {
+    id: string;
+    question: string;
+    token_id?: string;
+    points: number;           // number of points in history_<id>.json
+    volume: string;           // decimal string, as returned by the API
+    currentPrice?: number;
+}
+
+// history_<id>.json: { history: DataPoint[] }, sorted by time
+export interface DataPoint {
+    t: number;  // unix seconds
+    p: number;  // YES price, 0..1
+}
+
+// polls.json
+export interface Poll {
+    date: string;  // ISO date-time; without an offset it is read in DATA_TIME_ZONE
+    firm: string;
+    description: string;
+}
+
+// event.json (Gamma API event), only the fields the app reads. The API sends null
+// for many numbers it has no value for.
+export interface EventMarket {
+    id: string;
+    question: string;
+    description?: string;     // resolution rules
+    groupItemTitle?: string;
+    outcomes?: string;        // JSON-encoded array, e.g. '["Yes", "No"]'
+    outcomePrices?: string;   // JSON-encoded array of decimal strings
+    volume?: string;
+    closed?: boolean;
+    closedTime?: string;
+    endDate?: string;
+    umaResolutionStatus?: string;
+    lastTradePrice?: number | null;
+    bestBid?: number | null;
+    bestAsk?: number | null;
+    spread?: number | null;
+    oneMonthPriceChange?: number | null;
+    volume1wk?: number | null;
+    volume1mo?: number | null;
+    volume1yr?: number | null;
+}
+
+export interface EventFile {
+    id: string;
+    slug: string;
+    title: string;
+    description?: string;
+    resolutionSource?: string;
+    volume?: number;
+    openInterest?: number | null;
+    closed?: boolean;
+    closedTime?: string;
+    negRisk?: boolean;
+    startDate?: string;
+    endDate?: string;
+    updatedAt?: string;       // last refresh of the event by the API
+    markets: EventMarket[];
+}
+
+const EVENT_FIELDS: (keyof EventFile)[] = [
+    "id", "slug", "title", "description", "resolutionSource", "volume", "openInterest",
+    "closed", "closedTime", "negRisk", "startDate", "endDate", "updatedAt",
+];
+
+const MARKET_FIELDS: (keyof EventMarket)[] = [
+    "id", "question", "description", "groupItemTitle", "outcomes", "outcomePrices", "volume",
+    "closed", "closedTime", "endDate", "umaResolutionStatus", "lastTradePrice", "bestBid",
+    "bestAsk", "spread", "oneMonthPriceChange", "volume1wk", "volume1mo", "volume1yr",
+];
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export interface FileReport {
+    file: string;
+    issues: ValidationIssue[];
+}
+
+// Issues listed per file before the report is truncated
+const MAX_REPORTED = 10;
+
+const formatReports = (reports: FileReport[]) => reports.map(({ file, issues }) => {
+    const lines = issues.slice(0, MAX_REPORTED).map(i => `  ${i.path || "(root)"}: ${i.message}`);
+    if (issues.length > MAX_REPORTED) lines.push(`  ... and ${issues.length - MAX_REPORTED} more`);
+    return `${file}:\n${lines.join("\n")}`;
+}).join("\n");
+
+export class DataValidationError extends Error {
+    reports: FileReport[];
+
+    constructor(reports: FileReport[]) {
+        super(`Invalid data files:\n${formatReports(reports)}`);
+        this.name = "DataValidationError";
+        this.reports = reports;
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const isPrice = (value: unknown) => isFiniteNumber(value) && value >= 0 && value <= 1;
+
+const isDecimalString = (value: unknown) =>
+    typeof value === 'string' && value.trim() !== "" && Number.isFinite(Number(value));
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+// Collects issues while walking a value
+class Checker {
+    issues: ValidationIssue[] = [];
+
+    fail(path: string, message: string) {
+        this.issues.push({ path, message });
+    }
+
+    require(ok: boolean, path: string, message: string) {
+        if (!ok) this.fail(path, message);
+        return ok;
+    }
+
+    string(obj: Record<string, unknown>, key: string, path: string, optional = false) {
+        const value = obj[key];
+        if (optional && value === undefined) return;
+        this.require(typeof value === 'string', `${path}.${key}`, `expected a string, got ${describe(value)}`);
+    }
+
+    boolean(obj: Record<string, unknown>, key: string, path: string) {
+        const value = obj[key];
+        if (value === undefined) return;
+        this.require(typeof value === 'boolean', `${path}.${key}`, `expected a boolean, got ${describe(value)}`);
+    }
+
+    // Optional and nullable
+    number(obj: Record<string, unknown>, key: string, path: string) {
+        const value = obj[key];
+        if (value === undefined || value === null) return;
+        this.require(isFiniteNumber(value), `${path}.${key}`, `expected a number, got ${describe(value)}`);
+    }
+}
+
+export function validateSummary(raw: unknown): ValidationIssue[] {
+    const check = new Checker();
+    if (!check.require(Array.isArray(raw), "", "expected an array of markets")) return check.issues;
+
+    const seen = new Set<string>();
+    (raw as unknown[]).forEach((market, i) => {
+        const path = `[${i}]`;
+        if (!check.require(isRecord(market), path, "expected an object")) return;
+        const m = market as Record<string, unknown>;
+        check.string(m, "id", path);
+        check.string(m, "question", path);
+        check.string(m, "token_id", path, true);
+        check.require(
+            isFiniteNumber(m.points) && Number.isInteger(m.points) && m.points >= 0,
+            `${path}.points`, `expected a non-negative integer, got ${describe(m.points)}`
+        );
+        check.require(isDecimalString(m.volume), `${path}.volume`, `expected a decimal string, got ${describe(m.volume)}`);
+        if (m.currentPrice !== undefined) {
+            check.require(isPrice(m.currentPrice), `${path}.currentPrice`, `price ${describe(m.currentPrice)} is outside [0, 1]`);
+        }
+        if (typeof m.id === 'string') {
+            check.require(!seen.has(m.id), `${path}.id`, `duplicate market id ${m.id}`);
+            seen.add(m.id);
+        }
+    });
+    return check.issues;
+}
+
+export function validateHistory(raw: unknown): ValidationIssue[] {
+    const check = new Checker();
+    if (!check.require(isRecord(raw) && Array.isArray(raw.history), "history", "expected { history: [...] }")) {
+        return check.issues;
+    }
+
+    let previous = -Infinity;
+    ((raw as { history: unknown[] }).history).forEach((point, i) => {
+        const path = `history[${i}]`;
+        if (!check.require(isRecord(point), path, "expected { t, p }")) return;
+        const { t, p } = point as Record<string, unknown>;
+        check.require(isPrice(p), `${path}.p`, `price ${describe(p)} is outside [0, 1]`);
+        if (!isFiniteNumber(t)) {
+            check.fail(`${path}.t`, `expected a unix timestamp, got ${describe(t)}`);
+            return;
+        }
+        check.require(t >= previous, `${path}.t`, `timestamp ${t} is earlier than the previous point (${previous})`);
+        previous = t;
+    });
+    return check.issues;
+}
+
+export function validatePolls(raw: unknown): ValidationIssue[] {
+    const check = new Checker();
+    if (!check.require(Array.isArray(raw), "", "expected an array of polls")) return check.issues;
+
+    (raw as unknown[]).forEach((poll, i) => {
+        const path = `[${i}]`;
+        if (!check.require(isRecord(poll), path, "expected an object")) return;
+        const p = poll as Record<string, unknown>;
+        check.require(
+            typeof p.date === 'string' && !Number.isNaN(parseDataDate(p.date)),
+            `${path}.date`, `expected an ISO date, got ${describe(p.date)}`
+        );
+        check.string(p, "firm", path);
+        check.string(p, "description", path);
+    });
+    return check.issues;
+}
+
+export function validateEvent(raw: unknown): ValidationIssue[] {
+    const check = new Checker();
+    if (!check.require(isRecord(raw), "", "expected an event object")) return check.issues;
+    const event = raw as Record<string, unknown>;
+
+    check.string(event, "id", "");
+    check.string(event, "slug", "");
+    check.string(event, "title", "");
+    check.string(event, "description", "", true);
+    check.string(event, "resolutionSource", "", true);
+    check.string(event, "updatedAt", "", true);
+    check.boolean(event, "closed", "");
+    check.boolean(event, "negRisk", "");
+    check.number(event, "volume", "");
+    check.number(event, "openInterest", "");
+    if (!check.require(Array.isArray(event.markets), ".markets", "expected an array")) return check.issues;
+
+    (event.markets as unknown[]).forEach((market, i) => {
+        const path = `.markets[${i}]`;
+        if (!check.require(isRecord(market), path, "expected an object")) return;
+        const m = market as Record<string, unknown>;
+        check.string(m, "id", path);
+        check.string(m, "question", path);
+        check.string(m, "description", path, true);
+        check.string(m, "groupItemTitle", path, true);
+        check.string(m, "umaResolutionStatus", path, true);
+        check.boolean(m, "closed", path);
+        for (const key of ["lastTradePrice", "bestBid", "bestAsk", "spread", "oneMonthPriceChange", "volume1wk", "volume1mo", "volume1yr"]) {
+            check.number(m, key, path);
+        }
+        if (m.outcomePrices !== undefined) {
+            let prices: unknown = null;
+            try {
+                prices = JSON.parse(String(m.outcomePrices));
+            } catch {
+                // Reported below
+            }
+            check.require(
+                Array.isArray(prices) && prices.every(v => isDecimalString(v) && isPrice(Number(v))),
+                `${path}.outcomePrices`, `expected a JSON array of prices in [0, 1], got ${describe(m.outcomePrices)}`
+            );
+        }
+    });
+    return check.issues;
+}
+
+// Validate and narrow, throwing a DataValidationError naming `file`
+const ensure = <T>(raw: unknown, file: string, validate: (raw: unknown) => ValidationIssue[]): T => {
+    const issues = validate(raw);
+    if (issues.length > 0) throw new DataValidationError([{ file, issues }]);
+    return raw as T;
+};
+
+export const parseSummary = (raw: unknown, file = "summary.json") =>
+    ensure<Market[]>(raw, file, validateSummary);
+
+export const parseHistory = (raw: unknown, file = "history.json") =>
+    ensure<{ history: DataPoint[] }>(raw, file, validateHistory).history;
+
+export const parsePolls = (raw: unknown, file = "polls.json") =>
+    ensure<Poll[]>(raw, file, validatePolls);
+
+const pick = <T>(obj: Record<string, unknown>, keys: (keyof T)[]) => {
+    const out: Record<string, unknown> = {};
+    for (const key of keys) {
+        if (obj[key as string] !== undefined) out[key as string] = obj[key as string];
+    }
+    return out as T;
+};
+
+// The raw API event carries dozens of unused fields; keep only the contract's,
+// since the event is serialized into every page
+export const parseEvent = (raw: unknown, file = "event.json"): EventFile => {
+    const event = ensure<Record<string, unknown>>(raw, file, validateEvent);
+    return {
+        ...pick<EventFile>(event, EVENT_FIELDS),
+        markets: (event.markets as Record<string, unknown>[]).map(m => pick<EventMarket>(m, MARKET_FIELDS)),
+    };
+};
+
+// outcomePrices is a JSON-encoded string array; [] when missing or malformed
+export function outcomePrices(market: EventMarket): number[] {
+    try {
+        const prices = JSON.parse(market.outcomePrices || "[]");
+        return Array.isArray(prices) ? prices.map(Number) : [];
+    } catch {
+        return [];
+    }
+}
+
+// Short name of the market within its event ("Ventura" for "Will André Ventura win…?")
+export const candidateName = (market: EventMarket) => market.groupItemTitle?.trim() || market.question;
+
+// Gamma mixes ISO dates with "2026-02-09 04:49:19+00"; unix seconds, or null if unparseable
+export function parseApiDate(value?: string): number | null {
+    if (!value) return null;
+    const normalized = value.replace(" ", "T").replace(/(:\d{2}(?:\.\d+)?)([+-]\d{2})$/, "$1$2:00");
+    const ms = Date.parse(normalized);
+    return Number.isNaN(ms) ? null : ms / 1000;
+}
@@ -0,0 +1,81 @@
+// Time-zone aware parsing and formatting. Timestamps are unix seconds throughout;
+// a zone only matters when a wall-clock time is read from a data file or shown.
+
+import { format, type FormatOptions } from "date-fns";
+import type { Poll } from "./schema";
+
+// 'local' is the browser's zone; the others are IANA names
+export type TimeZoneSetting = 'local' | 'UTC' | 'Europe/Lisbon';
+
+export const TIME_ZONES: Record<TimeZoneSetting, string> = {
+    local: "Browser local",
+    UTC: "UTC",
+    'Europe/Lisbon': "Lisbon",
+};
+
+// Zone of hand-written data dates without an offset (polls.json, calendar.json):
+// the events tracked so far are Portuguese, and pollsters publish on Lisbon time
+export const DATA_TIME_ZONE = 'Europe/Lisbon';
+
+export const isTimeZone = (value: unknown): value is TimeZoneSetting =>
+    typeof value === 'string' && value in TIME_ZONES;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time in `zone` at instant `ms`, encoded as if it were a UTC instant
+const wallClock = (ms: number, zone: string) => {
+    let formatter = formatters.get(zone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: zone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(zone, formatter);
+    }
+    const part: Record<string, number> = {};
+    for (const { type, value } of formatter.formatToParts(new Date(ms))) part[type] = Number(value);
+    return Date.UTC(part.year, part.month - 1, part.day, part.hour, part.minute, part.second) + (ms - Math.floor(ms / 1000) * 1000);
+};
+
+// Offset of `zone` from UTC at instant `ms`, in milliseconds
+const zoneOffset = (ms: number, zone: string) => wallClock(ms, zone) - ms;
+
+// A Date whose local fields read as the wall-clock time in `zone`, for date-fns'
+// `format`, which always uses the browser's zone. Wall times the browser's own
+// zone skips (a DST gap) come out an hour late.
+export function zonedDate(t: number, zone: TimeZoneSetting): Date {
+    const ms = t * 1000;
+    if (zone === 'local') return new Date(ms);
+    const wall = new Date(zone === 'UTC' ? ms : wallClock(ms, zone));
+    return new Date(
+        wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(),
+        wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), wall.getUTCMilliseconds()
+    );
+}
+
+export const formatInZone = (t: number, pattern: string, zone: TimeZoneSetting, options?: FormatOptions) =>
+    format(zonedDate(t, zone), pattern, options);
+
+const WALL_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+// ISO date or date-time in unix seconds, NaN if unparseable. Strings with an offset
+// ("…Z", "…+01:00") are exact; bare ones are wall-clock time in `zone`.
+export function parseDataDate(value: string, zone: string = DATA_TIME_ZONE): number {
+    const match = WALL_TIME.exec(value);
+    if (!match) return Date.parse(value) / 1000;
+    const [year, month, day, hour, minute, second] = match.slice(1, 7).map(part => Number(part ?? 0));
+    const ms = match[7] ? Number(match[7].padEnd(3, "0")) : 0;
+    if (zone === 'local') return new Date(year, month - 1, day, hour, minute, second, ms).getTime() / 1000;
+    const wall = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+    // The offset at the guessed instant can differ from the one at the answer near a DST switch
+    const guess = wall - zoneOffset(wall, zone);
+    return (wall - zoneOffset(guess, zone)) / 1000;
+}
+
+export const pollTime = (poll: Poll) => parseDataDate(poll.date);
@@ -0,0 +1,49 @@
+// Compact per-market trend for the sidebar: a sparkline of the last week and the
+// recent price changes, computed once from the history files at build time.
+
+import { upperBound } from "./downsample";
+import type { DataPoint } from "./schema";
+
+export interface MarketTrend {
+    spark: number[];              // evenly spaced prices over the last SPARK_SPAN seconds
+    change24h: number | null;     // null when the history is shorter than the period
+    change7d: number | null;
+    volatility: number;           // realized volatility over the sparkline span, price units
+}
+
+const DAY = 24 * 3600;
+const SPARK_SPAN = 7 * DAY;
+const SPARK_POINTS = 42;
+
+// Last price at or before `t`, or null if the history starts later
+const priceAt = (t: number[], data: DataPoint[], at: number) => {
+    const i = upperBound(t, at) - 1;
+    return i >= 0 ? data[i].p : null;
+};
+
+export function computeTrend(data: DataPoint[]): MarketTrend | null {
+    if (data.length < 2) return null;
+    const t = data.map(d => d.t);
+    const last = data[data.length - 1];
+    const from = Math.max(data[0].t, last.t - SPARK_SPAN);
+
+    const spark: number[] = [];
+    for (let k = 0; k < SPARK_POINTS; k++) {
+        const p = priceAt(t, data, from + ((last.t - from) * k) / (SPARK_POINTS - 1)) ?? data[0].p;
+        // Rounded: these ship inside the page for every market
+        spark.push(Math.round(p * 1e4) / 1e4);
+    }
+
+    const change = (seconds: number) => {
+        const before = priceAt(t, data, last.t - seconds);
+        return before === null ? null : last.p - before;
+    };
+
+    let sumSq = 0;
+    for (let i = Math.max(1, upperBound(t, from)); i < data.length; i++) {
+        const r = data[i].p - data[i - 1].p;
+        sumSq += r * r;
+    }
+
+    return { spark, change24h: change(DAY), change7d: change(SPARK_SPAN), volatility: Math.sqrt(sumSq) };
+}
@@ -0,0 +1,92 @@
+// Dashboard view state <-> query string, so a link reopens the same chart and zoom window.
+// Only values that differ from the defaults are written, keeping links short.
+
+import { DEFAULT_SOURCE, type DataSourceKind } from "./dataSource";
+import { DOWNSAMPLE_METHODS, type DownsampleMethod } from "./downsample";
+
+export type ViewMode = 'individual' | 'overlay' | 'overround' | 'grid';
+export type SortOrder = 'price' | 'volume' | 'name' | 'move24h' | 'volatility';
+export type ChartStyle = 'line' | 'candles';
+
+export interface ViewState {
+    market: string;
+    view: ViewMode;
+    chart: ChartStyle;    // individual view: line or OHLC candles
+    res: number;          // detail level, minutes per point
+    ds: DownsampleMethod;
+    vol: number;          // minimum volume filter
+    sort: SortOrder;
+    polls: boolean;
+    overlay: string[];    // market ids compared in overlay view; empty = top markets
+    source: DataSourceKind;
+    from: number | null;  // zoom range, unix seconds; null = data extent
+    to: number | null;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+    market: "",
+    view: 'individual',
+    chart: 'line',
+    res: 30,
+    ds: 'stride',
+    vol: 0,
+    sort: 'price',
+    polls: true,
+    overlay: [],
+    source: DEFAULT_SOURCE,
+    from: null,
+    to: null,
+};
+
+const VIEW_MODES: ViewMode[] = ['individual', 'overlay', 'overround', 'grid'];
+const SORT_ORDERS: SortOrder[] = ['price', 'volume', 'name', 'move24h', 'volatility'];
+const CHART_STYLES: ChartStyle[] = ['line', 'candles'];
+const SOURCES: DataSourceKind[] = ['static', 'live'];
+const DS_METHODS = Object.keys(DOWNSAMPLE_METHODS) as DownsampleMethod[];
+
+const readNumber = (params: URLSearchParams, key: string): number | null => {
+    const raw = params.get(key);
+    if (raw === null || raw === "") return null;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : null;
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+    allowed.includes(value as T) ? (value as T) : fallback;
+
+export function parseViewState(search: string): ViewState {
+    const params = new URLSearchParams(search);
+    const res = readNumber(params, "res");
+    return {
+        market: params.get("market") || DEFAULT_VIEW_STATE.market,
+        view: oneOf(params.get("view"), VIEW_MODES, DEFAULT_VIEW_STATE.view),
+        chart: oneOf(params.get("chart"), CHART_STYLES, DEFAULT_VIEW_STATE.chart),
+        res: res !== null && res >= 1 ? Math.round(res) : DEFAULT_VIEW_STATE.res,
+        ds: oneOf(params.get("ds"), DS_METHODS, DEFAULT_VIEW_STATE.ds),
+        vol: readNumber(params, "vol") ?? DEFAULT_VIEW_STATE.vol,
+        sort: oneOf(params.get("sort"), SORT_ORDERS, DEFAULT_VIEW_STATE.sort),
+        polls: params.get("polls") !== "0",
+        overlay: (params.get("overlay") || "").split(",").filter(Boolean),
+        source: oneOf(params.get("source"), SOURCES, DEFAULT_VIEW_STATE.source),
+        from: readNumber(params, "from"),
+        to: readNumber(params, "to"),
+    };
+}
+
+export function serializeViewState(state: ViewState): string {
+    const params = new URLSearchParams();
+    if (state.market) params.set("market", state.market);
+    if (state.view !== DEFAULT_VIEW_STATE.view) params.set("view", state.view);
+    if (state.chart !== DEFAULT_VIEW_STATE.chart) params.set("chart", state.chart);
+    if (state.res !== DEFAULT_VIEW_STATE.res) params.set("res", String(state.res));
+    if (state.ds !== DEFAULT_VIEW_STATE.ds) params.set("ds", state.ds);
+    if (state.vol !== DEFAULT_VIEW_STATE.vol) params.set("vol", String(state.vol));
+    if (state.sort !== DEFAULT_VIEW_STATE.sort) params.set("sort", state.sort);
+    if (!state.polls) params.set("polls", "0");
+    if (state.overlay.length > 0) params.set("overlay", state.overlay.join(","));
+    if (state.source !== DEFAULT_VIEW_STATE.source) params.set("source", state.source);
+    if (state.from !== null) params.set("from", String(Math.round(state.from)));
+    if (state.to !== null) params.set("to", String(Math.round(state.to)));
+    const query = params.toString();
+    return query ? `?${query}` : "";
+}
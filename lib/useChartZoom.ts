@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// Visible x-range in unix seconds; null on either side means the data extent
+export interface ZoomRange {
+    from: number | null;
+    to: number | null;
+}
+
+// First and last timestamp of the charted data, unix seconds
+export interface DataExtent {
+    start: number;
+    end: number;
+}
+
+// Narrowest window the wheel and keys zoom into
+const MIN_SPAN = 5 * 60;
+// Zoom factor per wheel notch or +/- press
+const ZOOM_STEP = 1.25;
+// Share of the visible window moved per arrow press
+const PAN_STEP = 0.1;
+// Wheel events closer together than this are one gesture, i.e. one undo step
+const WHEEL_GESTURE_MS = 400;
+const HISTORY_LIMIT = 50;
+// Plot area inside the chart container: recharts' default Y axis width plus margins
+const PLOT_LEFT = 65;
+const PLOT_RIGHT = 5;
+
+const sameRange = (a: ZoomRange, b: ZoomRange) => a.from === b.from && a.to === b.to;
+
+// A zoom range with its undo/redo history. Charts that share a range share this
+// state, so undo steps back through every change whichever chart (or the URL, an
+// alert, an annotation) made it.
+export const useZoomState = (initial: ZoomRange = { from: null, to: null }) => {
+    const [state, setState] = useState<{ range: ZoomRange; past: ZoomRange[]; future: ZoomRange[] }>(
+        { range: initial, past: [], future: [] }
+    );
+
+    // Every user-visible zoom goes through here so it can be undone
+    const setRange = useCallback((next: ZoomRange, record = true) => setState(s => {
+        if (sameRange(next, s.range)) return s;
+        if (!record) return { ...s, range: next };
+        return { range: next, past: [...s.past, s.range].slice(-HISTORY_LIMIT), future: [] };
+    }), []);
+
+    const undo = useCallback(() => setState(s => s.past.length === 0 ? s : {
+        range: s.past[s.past.length - 1],
+        past: s.past.slice(0, -1),
+        future: [s.range, ...s.future],
+    }), []);
+
+    const redo = useCallback(() => setState(s => s.future.length === 0 ? s : {
+        range: s.future[0],
+        past: [...s.past, s.range],
+        future: s.future.slice(1),
+    }), []);
+
+    return useMemo(() => ({
+        range: state.range,
+        setRange,
+        undo,
+        redo,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+    }), [state, setRange, undo, redo]);
+};
+
+export type ZoomState = ReturnType<typeof useZoomState>;
+
+// Zoom and pan state shared by every chart. Pass a `shared` zoom state to control
+// the zoom from outside (e.g. URL state, or several charts on one range); otherwise
+// it is kept locally. Wheel, shift-drag and keyboard navigation need the data
+// `extent` and are bound to the element given to `bindZoom`.
+export const useChartZoom = (shared?: ZoomState, extent?: DataExtent | null) => {
+    const local = useZoomState();
+    const [refAreaLeft, setRefAreaLeft] = useState<string | number | null>(null);
+    const [refAreaRight, setRefAreaRight] = useState<string | number | null>(null);
+    const [container, setContainer] = useState<HTMLElement | null>(null);
+
+    const { range: current, setRange, undo, redo, canUndo, canRedo } = shared ?? local;
+    const left: string | number = current.from ?? "dataMin";
+    const right: string | number = current.to ?? "dataMax";
+
+    const zoom = () => {
+        if (refAreaLeft === refAreaRight || refAreaLeft === null || refAreaRight === null) {
+            setRefAreaLeft(null);
+            setRefAreaRight(null);
+            return;
+        }
+        let l = Number(refAreaLeft);
+        let r = Number(refAreaRight);
+        if (l > r) [l, r] = [r, l];
+        setRefAreaLeft(null);
+        setRefAreaRight(null);
+        setRange({ from: l, to: r });
+    };
+
+    const zoomOut = () => {
+        setRange({ from: null, to: null });
+    };
+
+    // Visible window in seconds, with the data extent filled in
+    const visibleWindow = (): [number, number] | null => {
+        const from = current.from ?? extent?.start;
+        const to = current.to ?? extent?.end;
+        return from === undefined || to === undefined ? null : [from, to];
+    };
+
+    // Keep a window inside the data; one covering all of it becomes the default range
+    const clampWindow = (from: number, to: number): ZoomRange => {
+        if (!extent) return { from, to };
+        const full = extent.end - extent.start;
+        const width = Math.max(to - from, Math.min(MIN_SPAN, full));
+        if (width >= full) return { from: null, to: null };
+        const start = Math.min(Math.max(from, extent.start), extent.end - width);
+        return { from: start, to: start + width };
+    };
+
+    // factor < 1 zooms in; `anchor` is the fixed point as a share of the window (0 = left edge)
+    const zoomBy = (factor: number, anchor = 0.5, record = true) => {
+        const visible = visibleWindow();
+        if (!visible) return;
+        const [from, to] = visible;
+        const pivot = from + (to - from) * anchor;
+        setRange(clampWindow(pivot - (pivot - from) * factor, pivot + (to - pivot) * factor), record);
+    };
+
+    // Move the window by a share of its width (negative = back in time)
+    const panBy = (fraction: number, record = true) => {
+        const visible = visibleWindow();
+        if (!visible) return;
+        const [from, to] = visible;
+        const shift = (to - from) * fraction;
+        setRange(clampWindow(from + shift, to + shift), record);
+    };
+
+    // Presets: the last `seconds` of data, or an explicit window
+    const showLast = (seconds: number) => {
+        if (extent) setRange(clampWindow(extent.end - seconds, extent.end));
+    };
+    const showWindow = (from: number, to: number) => setRange(clampWindow(from, to));
+
+    // Native listeners read the latest handlers through a ref: wheel needs a
+    // non-passive listener, which React's onWheel can't provide
+    const actions = { zoomBy, panBy, zoomOut, undo, redo, visibleWindow, clampWindow, setRange, current };
+    const actionsRef = useRef(actions);
+    useEffect(() => {
+        actionsRef.current = actions;
+    });
+
+    useEffect(() => {
+        if (!container) return;
+        let lastWheel = 0;
+        // Removes the window listeners of a pan in progress
+        let endDrag: (() => void) | null = null;
+
+        // Plot box of the chart under the pointer; the container may hold several charts
+        const plotBox = (target: EventTarget | null) => {
+            const chart = target instanceof Element ? target.closest('.recharts-wrapper') : null;
+            const rect = (chart ?? container).getBoundingClientRect();
+            return { left: rect.left + PLOT_LEFT, width: Math.max(1, rect.width - PLOT_LEFT - PLOT_RIGHT) };
+        };
+
+        // Share of the plot width at a client x coordinate
+        const plotShare = (target: EventTarget | null, clientX: number) => {
+            const box = plotBox(target);
+            return Math.min(1, Math.max(0, (clientX - box.left) / box.width));
+        };
+
+        const onWheel = (e: WheelEvent) => {
+            if (e.deltaY === 0) return;
+            e.preventDefault();
+            const now = Date.now();
+            const factor = e.deltaY < 0 ? 1 / ZOOM_STEP : ZOOM_STEP;
+            actionsRef.current.zoomBy(factor, plotShare(e.target, e.clientX), now - lastWheel > WHEEL_GESTURE_MS);
+            lastWheel = now;
+        };
+
+        const onKeyDown = (e: KeyboardEvent) => {
+            const { zoomBy, panBy, zoomOut, undo, redo } = actionsRef.current;
+            const mod = e.ctrlKey || e.metaKey;
+            if (mod && e.key.toLowerCase() === 'z') (e.shiftKey ? redo : undo)();
+            else if (mod && e.key.toLowerCase() === 'y') redo();
+            else if (mod) return;
+            else if (e.key === 'ArrowLeft') panBy(-PAN_STEP);
+            else if (e.key === 'ArrowRight') panBy(PAN_STEP);
+            else if (e.key === '+' || e.key === '=') zoomBy(1 / ZOOM_STEP);
+            else if (e.key === '-' || e.key === '_') zoomBy(ZOOM_STEP);
+            else if (e.key === '0' || e.key === 'Escape') zoomOut();
+            else return;
+            e.preventDefault();
+        };
+
+        // Shift-drag pans; captured before the chart sees it so no zoom selection starts
+        const onMouseDown = (e: MouseEvent) => {
+            if (!e.shiftKey || e.button !== 0) return;
+            const start = actionsRef.current.visibleWindow();
+            if (!start) return;
+            e.preventDefault();
+            e.stopPropagation();
+            container.focus();
+
+            const secondsPerPixel = (start[1] - start[0]) / plotBox(e.target).width;
+            const startX = e.clientX;
+            let recorded = false;
+
+            const onMove = (move: MouseEvent) => {
+                const shift = (startX - move.clientX) * secondsPerPixel;
+                const { clampWindow, setRange } = actionsRef.current;
+                setRange(clampWindow(start[0] + shift, start[1] + shift), !recorded);
+                recorded = true;
+            };
+            const onUp = () => {
+                window.removeEventListener('mousemove', onMove);
+                window.removeEventListener('mouseup', onUp);
+                endDrag = null;
+            };
+            endDrag?.();
+            endDrag = onUp;
+            window.addEventListener('mousemove', onMove);
+            window.addEventListener('mouseup', onUp);
+        };
+
+        container.addEventListener('wheel', onWheel, { passive: false });
+        container.addEventListener('keydown', onKeyDown);
+        container.addEventListener('mousedown', onMouseDown, { capture: true });
+        return () => {
+            container.removeEventListener('wheel', onWheel);
+            container.removeEventListener('keydown', onKeyDown);
+            container.removeEventListener('mousedown', onMouseDown, { capture: true });
+            endDrag?.();
+        };
+    }, [container]);
+
+    return {
+        left,
+        right,
+        refAreaLeft,
+        refAreaRight,
+        setRefAreaLeft,
+        setRefAreaRight,
+        setRange,
+        zoom,
+        zoomOut,
+        zoomBy,
+        panBy,
+        showLast,
+        showWindow,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        bindZoom: setContainer,
+    };
+};
+
+export type ChartZoom = ReturnType<typeof useChartZoom>;
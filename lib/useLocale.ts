@@ -0,0 +1,43 @@
+import { createContext, useContext, useMemo, useSyncExternalStore } from "react";
+import { isLocale, localeTools, type Locale } from "./i18n";
+
+// UI language and number/date conventions, chosen in the sidebar
+export const LocaleContext = createContext<Locale>('en');
+
+const STORAGE_KEY = "polymarket-explorer:locale";
+
+// Saved choice, else Portuguese for browsers set to any Portuguese variant
+export function loadLocale(): Locale {
+    if (typeof window === 'undefined') return 'en';
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        if (isLocale(saved)) return saved;
+    } catch {
+        // Storage unavailable; fall back to the browser language
+    }
+    return window.navigator.languages?.some(lang => lang.toLowerCase().startsWith('pt')) ? 'pt-PT' : 'en';
+}
+
+export function saveLocale(locale: Locale) {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+        // Storage unavailable; the choice lasts for the session
+    }
+}
+
+// The choice is made on the dashboard, so it can't change while another page is open
+const subscribeSaved = () => () => {};
+
+// Tools for the saved locale, for pages outside the dashboard (which provides the
+// context). The static render is English; hydration then switches to the saved choice.
+export function useSavedLocale() {
+    const locale = useSyncExternalStore(subscribeSaved, loadLocale, () => 'en' as Locale);
+    return useMemo(() => localeTools(locale), [locale]);
+}
+
+// Messages (`t`) and number formatters for the selected locale
+export function useLocale() {
+    const locale = useContext(LocaleContext);
+    return useMemo(() => localeTools(locale), [locale]);
+}
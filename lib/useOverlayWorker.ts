@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { DownsampleMethod } from "./downsample";
+import { toRows } from "./merge";
+import type { CorrelationResult } from "./correlation";
+import type { OverlayRequest, OverlayResponse, SeriesTransform } from "./overlay.worker";
+import type { DataPoint } from "./schema";
+
+interface Dataset {
+    id: string;
+    data: DataPoint[];
+}
+
+export type MergedRow = { t: number } & Record<string, number>;
+
+interface Extent {
+    source: Dataset[];
+    length: number;
+    start: number;
+    end: number;
+}
+
+// Zoom bounds arrive as "dataMin"/"dataMax" when unzoomed; the worker takes null
+const bound = (value: number | string) => typeof value === 'number' ? value : null;
+
+// Runs the overlay merge + downsampling in a Web Worker. The merge happens once per
+// `datasets` change; zooming only re-slices the cached merge. State is tagged with
+// the datasets it belongs to, so results from a superseded load are never shown.
+export function useOverlayWorker(
+    datasets: Dataset[],
+    left: number | string,
+    right: number | string,
+    targetPoints: (extent: { start: number; end: number }) => number,
+    method: DownsampleMethod,
+    transform: SeriesTransform = 'none',
+    show: string[] | null = null // subset of the datasets to return rows for
+) {
+    const workerRef = useRef<Worker | null>(null);
+    const versionRef = useRef(0);
+    const requestRef = useRef(0);
+    const sourcesRef = useRef(new Map<number, Dataset[]>());
+    // One-off requests (exports, analyses) waiting for their reply, by request id
+    const pendingRef = useRef(new Map<number, (message: OverlayResponse) => void>());
+
+    const [progress, setProgress] = useState<{ source?: Dataset[]; done: number; total: number }>({ done: 0, total: 0 });
+    const [extent, setExtent] = useState<Extent | null>(null);
+    const [view, setView] = useState<{ source?: Dataset[]; rows: MergedRow[]; inRange: number }>({ rows: [], inRange: 0 });
+
+    useEffect(() => {
+        const worker = new Worker(new URL("./overlay.worker.ts", import.meta.url));
+        const sources = sourcesRef.current;
+        const pending = pendingRef.current;
+        worker.onmessage = (event: MessageEvent<OverlayResponse>) => {
+            const message = event.data;
+            const source = sources.get(message.version);
+            if (message.type === 'progress') {
+                setProgress({ source, done: message.done, total: message.total });
+            } else if (message.type === 'loaded') {
+                for (const version of sources.keys()) {
+                    if (version < message.version) sources.delete(version);
+                }
+                if (source) setExtent({ source, length: message.length, start: message.start, end: message.end });
+            } else {
+                const resolve = pending.get(message.requestId);
+                if (resolve) {
+                    pending.delete(message.requestId);
+                    resolve(message);
+                } else if (message.type === 'view') {
+                    setView({ source, rows: toRows(message) as MergedRow[], inRange: message.inRange });
+                }
+            }
+        };
+        workerRef.current = worker;
+        return () => {
+            worker.terminate();
+            workerRef.current = null;
+            // Nothing will answer the requests still out; settle them as stale
+            for (const [requestId, resolve] of pending) resolve({ type: 'stale', version: -1, requestId });
+            pending.clear();
+        };
+    }, []);
+
+    // Ship the histories as transferable typed arrays
+    useEffect(() => {
+        const worker = workerRef.current;
+        if (!worker) return;
+        const version = ++versionRef.current;
+        sourcesRef.current.set(version, datasets);
+        const series = datasets.map(ds => ({
+            id: ds.id,
+            t: Float64Array.from(ds.data, d => d.t),
+            p: Float64Array.from(ds.data, d => d.p),
+        }));
+        const request: OverlayRequest = { type: 'load', version, series };
+        worker.postMessage(request, series.flatMap(s => [s.t.buffer, s.p.buffer]));
+    }, [datasets]);
+
+    const ready = extent?.source === datasets;
+    const target = ready ? targetPoints(extent) : 0;
+
+    const viewRequest = useCallback((requestId: number, l: number | string, r: number | string, points: number): OverlayRequest => ({
+        type: 'view',
+        version: versionRef.current,
+        requestId,
+        left: bound(l),
+        right: bound(r),
+        target: points,
+        method,
+        transform,
+        show,
+    }), [method, transform, show]);
+
+    useEffect(() => {
+        if (!ready) return;
+        workerRef.current?.postMessage(viewRequest(++requestRef.current, left, right, target));
+    }, [ready, left, right, target, viewRequest]);
+
+    // Post a one-off request and resolve with the worker's reply to it
+    const ask = useCallback(<T,>(build: (requestId: number) => OverlayRequest, read: (message: OverlayResponse) => T) => {
+        return new Promise<T>(resolve => {
+            const requestId = ++requestRef.current;
+            const worker = workerRef.current;
+            if (!worker) {
+                resolve(read({ type: 'stale', version: -1, requestId }));
+                return;
+            }
+            pendingRef.current.set(requestId, message => resolve(read(message)));
+            worker.postMessage(build(requestId));
+        });
+    }, []);
+
+    // Full-resolution rows for an arbitrary range (exports); empty if the datasets changed meanwhile
+    const requestRange = useCallback((l: number | string, r: number | string) =>
+        ask(id => viewRequest(id, l, r, Infinity), message =>
+            message.type === 'view' ? toRows(message) as MergedRow[] : []
+        ), [ask, viewRequest]);
+
+    // Periods where the book sum leaves [1 - threshold, 1 + threshold], over the whole merge
+    const requestDepartures = useCallback((threshold: number) =>
+        ask(requestId => ({ type: 'departures', version: versionRef.current, requestId, threshold }), message =>
+            message.type === 'departures' ? message.departures : null
+        ), [ask]);
+
+    // Return correlations and lead-lag for a range, on a `step`-second grid
+    const requestCorrelation = useCallback((l: number | string, r: number | string, step: number, maxLag: number) =>
+        ask(requestId => ({ type: 'correlation', version: versionRef.current, requestId, left: bound(l), right: bound(r), step, maxLag, show }), message =>
+            message.type === 'correlation' ? message.result : null as CorrelationResult | null
+        ), [ask, show]);
+
+    return {
+        ready,
+        progress: progress.source === datasets && progress.total > 0 ? progress.done / progress.total : 0,
+        extent: ready ? extent : null,
+        rows: ready && view.source === datasets ? view.rows : [],
+        inRange: view.inRange,
+        requestRange,
+        requestDepartures,
+        requestCorrelation,
+    };
+}
@@ -0,0 +1,39 @@
+import { createContext, useCallback, useContext } from "react";
+import { DATE_FORMATS, DATE_LOCALES, type DateStyle } from "./i18n";
+import { formatInZone, isTimeZone, type TimeZoneSetting } from "./timeZone";
+import { LocaleContext } from "./useLocale";
+
+// Display zone for every date on the page, chosen in the sidebar
+export const TimeZoneContext = createContext<TimeZoneSetting>('local');
+
+const STORAGE_KEY = "polymarket-explorer:timezone";
+
+// Shared across events: the zone is a preference of the analyst, not of the data
+export function loadTimeZone(): TimeZoneSetting {
+    if (typeof window === 'undefined') return 'local';
+    try {
+        const zone = window.localStorage.getItem(STORAGE_KEY);
+        return isTimeZone(zone) ? zone : 'local';
+    } catch {
+        return 'local';
+    }
+}
+
+export function saveTimeZone(zone: TimeZoneSetting) {
+    try {
+        if (zone !== 'local') window.localStorage.setItem(STORAGE_KEY, zone);
+        else window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Storage unavailable; the choice lasts for the session
+    }
+}
+
+// Formats unix seconds in the selected zone, in the selected locale's style
+export function useTimeFormat() {
+    const zone = useContext(TimeZoneContext);
+    const locale = useContext(LocaleContext);
+    return useCallback(
+        (t: number, style: DateStyle) => formatInZone(t, DATE_FORMATS[locale][style], zone, { locale: DATE_LOCALES[locale] }),
+        [zone, locale]
+    );
+}
@@ -0,0 +1,171 @@
+// Risk statistics for a single market: rolling realized volatility, the shape of
+// the return distribution, and the worst drawdown / single move in a history.
+
+import { findGaps } from "./dataHealth";
+import type { DataPoint } from "./schema";
+
+export interface VolPoint {
+    t: number;
+    vol: number; // realized volatility over the trailing window, in price units (0-1)
+}
+
+export interface HistogramBin {
+    from: number;
+    to: number;
+    count: number;
+}
+
+export interface ReturnStats {
+    count: number;
+    mean: number;
+    std: number;
+    skew: number;
+    kurtosis: number;      // excess kurtosis: 0 for a normal distribution
+    tailShare: number;     // share of returns beyond 3 standard deviations
+    bins: HistogramBin[];
+}
+
+export interface Drawdown {
+    peakT: number;
+    peak: number;
+    troughT: number;
+    trough: number;
+    drawdown: number;      // peak - trough, positive
+}
+
+export interface Move {
+    start: number;
+    end: number;
+    from: number;
+    to: number;
+    change: number;
+}
+
+// Share of a normal distribution beyond ±3σ, for comparison with tailShare
+export const NORMAL_TAIL_SHARE = 0.0027;
+
+// Square root of the summed squared returns in the `windowSeconds` before each point
+export function rollingVolatility(data: DataPoint[], windowSeconds: number): VolPoint[] {
+    const result: VolPoint[] = [];
+    if (data.length < 2) return result;
+
+    let sumSq = 0;
+    let first = 1; // oldest return (index of its end point) inside the window
+    for (let i = 1; i < data.length; i++) {
+        const r = data[i].p - data[i - 1].p;
+        sumSq += r * r;
+        while (data[first].t <= data[i].t - windowSeconds) {
+            const dropped = data[first].p - data[first - 1].p;
+            sumSq -= dropped * dropped;
+            first++;
+        }
+        // Skip the warm-up before a full window of history exists
+        if (data[i].t - data[0].t < windowSeconds) continue;
+        result.push({ t: data[i].t, vol: Math.sqrt(Math.max(0, sumSq)) });
+    }
+    return result;
+}
+
+// Spacing of the grid returns are taken on
+const RETURN_STEP = 60;
+
+// Returns between consecutive times of a RETURN_STEP grid from the first point to the
+// last, each time priced at the latest point at or before it. Steps starting inside a
+// data gap are skipped: the fetch missed those hours, they were not flat.
+function gridReturns(data: DataPoint[]): number[] {
+    const gaps = findGaps(data);
+    const start = data[0].t;
+    const steps = Math.floor((data[data.length - 1].t - start) / RETURN_STEP);
+    const returns: number[] = [];
+    let j = 0;
+    let g = 0;
+    let previous = data[0].p;
+    for (let i = 1; i <= steps; i++) {
+        const t = start + i * RETURN_STEP;
+        while (j + 1 < data.length && data[j + 1].t <= t) j++;
+        const from = t - RETURN_STEP;
+        while (g < gaps.length && gaps[g].end <= from) g++;
+        if (g >= gaps.length || from < gaps[g].start) returns.push(data[j].p - previous);
+        previous = data[j].p;
+    }
+    return returns;
+}
+
+// Moments and a histogram of 1-minute returns. Points arrive at irregular intervals,
+// so returns are taken on a forward-filled grid: a quiet hour counts as sixty flat
+// minutes rather than one step. The histogram spans ±4σ; anything further out is
+// counted in the edge bins.
+export function returnStats(data: DataPoint[], binCount = 41): ReturnStats | null {
+    if (data.length < 2) return null;
+    const returns = gridReturns(data);
+    const n = returns.length;
+    if (n < 2) return null;
+
+    let sum = 0;
+    for (const r of returns) sum += r;
+    const mean = sum / n;
+
+    let m2 = 0, m3 = 0, m4 = 0;
+    for (const r of returns) {
+        const d = r - mean;
+        m2 += d * d;
+        m3 += d * d * d;
+        m4 += d * d * d * d;
+    }
+    m2 /= n;
+    m3 /= n;
+    m4 /= n;
+    const std = Math.sqrt(m2);
+    if (std === 0) return { count: n, mean, std, skew: 0, kurtosis: 0, tailShare: 0, bins: [] };
+
+    let tails = 0;
+    const half = 4 * std;
+    const width = (2 * half) / binCount;
+    const bins: HistogramBin[] = Array.from({ length: binCount }, (_, b) => ({
+        from: mean - half + b * width,
+        to: mean - half + (b + 1) * width,
+        count: 0,
+    }));
+    for (const r of returns) {
+        if (Math.abs(r - mean) > 3 * std) tails++;
+        const b = Math.floor((r - mean + half) / width);
+        bins[Math.min(binCount - 1, Math.max(0, b))].count++;
+    }
+
+    return {
+        count: n,
+        mean,
+        std,
+        skew: m3 / (std * std * std),
+        kurtosis: m4 / (m2 * m2) - 3,
+        tailShare: tails / n,
+        bins,
+    };
+}
+
+// Largest peak-to-trough decline, where the trough comes after the peak
+export function maxDrawdown(data: DataPoint[]): Drawdown | null {
+    if (data.length < 2) return null;
+    let peak = data[0];
+    let worst: Drawdown | null = null;
+    for (const d of data) {
+        if (d.p > peak.p) peak = d;
+        const drawdown = peak.p - d.p;
+        if (drawdown > 0 && (!worst || drawdown > worst.drawdown)) {
+            worst = { peakT: peak.t, peak: peak.p, troughT: d.t, trough: d.p, drawdown };
+        }
+    }
+    return worst;
+}
+
+// Biggest absolute change between two consecutive points
+export function largestMove(data: DataPoint[]): Move | null {
+    let best: Move | null = null;
+    for (let i = 1; i < data.length; i++) {
+        const change = data[i].p - data[i - 1].p;
+        if (!best || Math.abs(change) > Math.abs(best.change)) {
+            best = { start: data[i - 1].t, end: data[i].t, from: data[i - 1].p, to: data[i].p, change };
+        }
+    }
+    return best && best.change !== 0 ? best : null;
+}
@@ -0,0 +1,22 @@
+// Pinned markets per event, kept in the browser's localStorage
+
+const storageKey = (slug: string) => `polymarket-explorer:watchlist:${slug}`;
+
+export function loadWatchlist(slug: string): string[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const ids = JSON.parse(window.localStorage.getItem(storageKey(slug)) || "[]");
+        return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveWatchlist(slug: string, ids: string[]) {
+    try {
+        if (ids.length > 0) window.localStorage.setItem(storageKey(slug), JSON.stringify(ids));
+        else window.localStorage.removeItem(storageKey(slug));
+    } catch {
+        // Storage can be unavailable (private mode, quota); the watchlist then lasts for the session
+    }
+}
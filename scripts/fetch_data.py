@@ -2,6 +2,9 @@ import requests
 import json
 import time
 import os
+import sys
+
+DATA_ROOT = "public/data"
 
 def get_event_data(slug):
     url = f"https://gamma-api.polymarket.com/events?slug={slug}"
@@ -30,8 +33,16 @@ def get_price_history(market_id, start_ts):
         print(f"Exception fetching history: {e}")
     return None
 
-def main():
-    slug = "portugal-presidential-election"
+def tracked_slugs():
+    # Every event directory that already holds an event.json is refreshed
+    if not os.path.isdir(DATA_ROOT):
+        return []
+    return sorted(
+        name for name in os.listdir(DATA_ROOT)
+        if os.path.isfile(os.path.join(DATA_ROOT, name, "event.json"))
+    )
+
+def fetch_event(slug):
     print(f"Fetching event: {slug}")
     events = get_event_data(slug)
 
@@ -59,11 +70,12 @@ def main():
     # Simple heuristic: "Will [Person] win" usually.
     # We'll fetch history for ALL markets that look like main candidates.
     
-    # Create public/data directory if not exists
-    os.makedirs("public/data", exist_ok=True)
+    # Each event gets its own data directory: public/data/<slug>
+    data_dir = os.path.join(DATA_ROOT, slug)
+    os.makedirs(data_dir, exist_ok=True)
     
     # Save event metadata
-    with open("public/data/event.json", "w") as f:
+    with open(os.path.join(data_dir, "event.json"), "w") as f:
         json.dump(event, f, indent=2)
 
     stats = []
@@ -98,7 +110,7 @@ def main():
             print(f"  Fetched {len(points)} points.")
             
             # Save market history
-            filename = f"public/data/history_{market['id']}.json"
+            filename = os.path.join(data_dir, f"history_{market['id']}.json")
             with open(filename, "w") as f:
                 json.dump(history, f)
             
@@ -126,8 +138,14 @@ def main():
             print("  No history.")
 
     # Save summary
-    with open("public/data/summary.json", "w") as f:
+    with open(os.path.join(data_dir, "summary.json"), "w") as f:
         json.dump(stats, f, indent=2)
 
+def main():
+    # Usage: fetch_data.py [slug ...]  (defaults to every event already in public/data)
+    slugs = sys.argv[1:] or tracked_slugs() or ["portugal-presidential-election"]
+    for slug in slugs:
+        fetch_event(slug)
+
 if __name__ == "__main__":
     main()
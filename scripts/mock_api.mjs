@@ -0,0 +1,120 @@
+// Local stand-in for the Gamma and CLOB APIs, replaying the snapshots in public/data
+// so the dashboard's live mode can be exercised offline.
+//
+//   node scripts/mock_api.mjs [--port 4000] [--speed 60] [--start 2026-01-17T00:00:00Z]
+//
+// A replay clock starts at --start (default: one day after the earliest snapshot
+// point) and advances --speed snapshot seconds per real second; only points up to
+// the clock are served, so polling clients see new points arrive.
+//
+//   GET /events?slug=<slug>                          event.json, prices as of the clock
+//   GET /prices-history?market=<token>&interval=max  { history } up to the clock
+//   GET /prices-history?market=<token>&startTs=<t>   points with startTs <= t <= clock
+
+import { createServer } from "node:http";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+const DATA_ROOT = path.join(process.cwd(), "public/data");
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+    const idx = args.indexOf(`--${name}`);
+    return idx >= 0 && args[idx + 1] !== undefined ? args[idx + 1] : fallback;
+};
+
+const port = Number(option("port", 4000));
+const speed = Number(option("speed", 60));
+
+const readJson = async (...parts) => JSON.parse(await readFile(path.join(DATA_ROOT, ...parts), "utf8"));
+
+// slug -> event.json, token id -> { slug, id, history }
+const events = new Map();
+const tokens = new Map();
+
+for (const entry of await readdir(DATA_ROOT, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const slug = entry.name;
+    let event;
+    try {
+        event = await readJson(slug, "event.json");
+    } catch {
+        continue;
+    }
+    events.set(slug, event);
+
+    const summary = await readJson(slug, "summary.json").catch(() => []);
+    for (const market of summary) {
+        if (!market.token_id) continue;
+        const { history = [] } = await readJson(slug, `history_${market.id}.json`).catch(() => ({}));
+        tokens.set(market.token_id, { slug, id: market.id, history });
+    }
+}
+
+const firstPoints = [...tokens.values()].filter(m => m.history.length > 0).map(m => m.history[0].t);
+const startOption = option("start", null);
+const replayStart = startOption
+    ? Date.parse(startOption) / 1000
+    : firstPoints.length > 0 ? Math.min(...firstPoints) + 86400 : Date.now() / 1000;
+const serverStart = Date.now() / 1000;
+
+const clock = () => replayStart + (Date.now() / 1000 - serverStart) * speed;
+
+const pointsUntil = (history, until) => {
+    let end = 0;
+    while (end < history.length && history[end].t <= until) end++;
+    return history.slice(0, end);
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+    });
+    res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+// Event with every market's YES/NO prices taken from its replayed history
+const eventAt = (slug, now) => {
+    const event = events.get(slug);
+    const latest = new Map();
+    for (const market of tokens.values()) {
+        if (market.slug !== slug) continue;
+        const visible = pointsUntil(market.history, now);
+        if (visible.length > 0) latest.set(market.id, visible[visible.length - 1].p);
+    }
+    return {
+        ...event,
+        markets: (event.markets || []).map(m => latest.has(m.id)
+            ? { ...m, outcomePrices: JSON.stringify([String(latest.get(m.id)), String(1 - latest.get(m.id))]) }
+            : m),
+    };
+};
+
+const server = createServer((req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204, null);
+    const url = new URL(req.url, `http://localhost:${port}`);
+    const now = clock();
+
+    if (url.pathname === "/events") {
+        const slug = url.searchParams.get("slug");
+        return send(res, 200, events.has(slug) ? [eventAt(slug, now)] : []);
+    }
+
+    if (url.pathname === "/prices-history") {
+        const market = tokens.get(url.searchParams.get("market"));
+        if (!market) return send(res, 400, { error: "unknown market" });
+        const startTs = Number(url.searchParams.get("startTs") ?? -Infinity);
+        const endTs = Math.min(now, Number(url.searchParams.get("endTs") ?? Infinity));
+        const history = pointsUntil(market.history, endTs).filter(d => d.t >= startTs);
+        return send(res, 200, { history });
+    }
+
+    send(res, 404, { error: "not found" });
+});
+
+server.listen(port, () => {
+    console.log(`Mock API on http://localhost:${port} (${events.size} events, ${tokens.size} markets)`);
+    console.log(`Replay clock starts at ${new Date(replayStart * 1000).toISOString()}, ${speed}x`);
+});